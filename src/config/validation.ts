@@ -0,0 +1,514 @@
+import type { VehicleConfig, TrailerConfig, RoadConfig } from '../types';
+
+export interface ConfigIssue {
+  path: string; // JSON path, e.g. $.engine.torqueCurve[2][0]
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  readonly source: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(
+      `Invalid ${source} (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n` +
+      issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n'),
+    );
+    this.name = 'ConfigValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  above?: number; // exclusive lower bound
+  below?: number; // exclusive upper bound
+  integer?: boolean;
+}
+
+const POSITIVE: NumberRule = { above: 0 };
+const NON_NEGATIVE: NumberRule = { min: 0 };
+const FRACTION: NumberRule = { min: 0, max: 1 };
+
+/**
+ * Collects every problem in a config instead of stopping at the first,
+ * so a broken file can be fixed in one pass.
+ */
+class Checker {
+  readonly issues: ConfigIssue[] = [];
+
+  fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string): JsonObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `expected an object, got ${describe(value)}`);
+      return null;
+    }
+    return value as JsonObject;
+  }
+
+  array(value: unknown, path: string, minLength = 0): unknown[] | null {
+    if (!Array.isArray(value)) {
+      this.fail(path, `expected an array, got ${describe(value)}`);
+      return null;
+    }
+    if (value.length < minLength) {
+      this.fail(path, `expected at least ${minLength} entries, got ${value.length}`);
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, rule: NumberRule = {}): number | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `expected a finite number, got ${describe(value)}`);
+      return null;
+    }
+    if (rule.integer && !Number.isInteger(value)) this.fail(path, `expected an integer, got ${value}`);
+    if (rule.min !== undefined && value < rule.min) this.fail(path, `must be >= ${rule.min}, got ${value}`);
+    if (rule.max !== undefined && value > rule.max) this.fail(path, `must be <= ${rule.max}, got ${value}`);
+    if (rule.above !== undefined && value <= rule.above) this.fail(path, `must be > ${rule.above}, got ${value}`);
+    if (rule.below !== undefined && value >= rule.below) this.fail(path, `must be < ${rule.below}, got ${value}`);
+    return value;
+  }
+
+  string(value: unknown, path: string): string | null {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.fail(path, `expected a non-empty string, got ${describe(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  color(value: unknown, path: string): string | null {
+    if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+      this.fail(path, `expected a hex colour like "#cc3333", got ${describe(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T | null {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      this.fail(path, `expected one of ${options.map((o) => `"${o}"`).join(', ')}, got ${describe(value)}`);
+      return null;
+    }
+    return value as T;
+  }
+
+  /** Check each listed key of `obj` as a number with the given rule */
+  numbers(obj: JsonObject, path: string, rules: Record<string, NumberRule>): Record<string, number | null> {
+    const result: Record<string, number | null> = {};
+    for (const [key, rule] of Object.entries(rules)) {
+      result[key] = this.number(obj[key], `${path}.${key}`, rule);
+    }
+    return result;
+  }
+
+  /** Fixed-length numeric tuple such as a wheel position */
+  tuple(value: unknown, path: string, length: number): number[] | null {
+    const arr = this.array(value, path);
+    if (!arr) return null;
+    if (arr.length !== length) {
+      this.fail(path, `expected exactly ${length} numbers, got ${arr.length}`);
+      return null;
+    }
+    const nums = arr.map((v, i) => this.number(v, `${path}[${i}]`));
+    return nums.every((n) => n !== null) ? (nums as number[]) : null;
+  }
+
+  /** `a` must be strictly less than `b` when both are valid */
+  less(a: number | null, b: number | null, path: string, message: string): void {
+    if (a !== null && b !== null && !(a < b)) this.fail(path, message);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing (missing)';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'number') return String(value);
+  return typeof value;
+}
+
+function checkDifferential(c: Checker, value: unknown, path: string): void {
+  const diff = c.object(value, path);
+  if (!diff) return;
+  c.oneOf(diff.type, `${path}.type`, ['open', 'limited-slip', 'locked'] as const);
+  if (diff.biasRatio !== undefined) c.number(diff.biasRatio, `${path}.biasRatio`, { min: 1 });
+}
+
+function checkEngine(c: Checker, engine: JsonObject): void {
+  const n = c.numbers(engine, '$.engine', {
+    idleRpm: POSITIVE,
+    maxRpm: POSITIVE,
+    redlineRpm: POSITIVE,
+    engineBrakingFactor: NON_NEGATIVE,
+    inertia: POSITIVE,
+    stallRpm: NON_NEGATIVE,
+  });
+  c.less(n.idleRpm, n.redlineRpm, '$.engine.idleRpm', `must be below redlineRpm (${n.redlineRpm})`);
+  if (n.redlineRpm !== null && n.maxRpm !== null && n.redlineRpm > n.maxRpm) {
+    c.fail('$.engine.redlineRpm', `must not exceed maxRpm (${n.maxRpm})`);
+  }
+  c.less(n.stallRpm, n.idleRpm, '$.engine.stallRpm', `must be below idleRpm (${n.idleRpm})`);
+
+  const curve = c.array(engine.torqueCurve, '$.engine.torqueCurve', 2);
+  let prevRpm = -Infinity;
+  curve?.forEach((point, i) => {
+    const path = `$.engine.torqueCurve[${i}]`;
+    const pair = c.tuple(point, path, 2);
+    if (!pair) return;
+    const [rpm, torque] = pair;
+    if (torque < 0) c.fail(`${path}[1]`, `torque must be >= 0, got ${torque}`);
+    if (rpm <= prevRpm) c.fail(`${path}[0]`, `RPMs must be ascending, ${rpm} follows ${prevRpm}`);
+    prevRpm = rpm;
+  });
+
+  const starter = c.object(engine.starter, '$.engine.starter');
+  if (starter) {
+    const s = c.numbers(starter, '$.engine.starter', {
+      torque: POSITIVE,
+      crankRpm: POSITIVE,
+      fireRpm: POSITIVE,
+      catchTime: NON_NEGATIVE,
+    });
+    c.less(s.fireRpm, s.crankRpm, '$.engine.starter.fireRpm',
+      `must be below crankRpm (${s.crankRpm}) or the engine can never start`);
+  }
+
+  if (engine.forcedInduction !== undefined) {
+    const fi = c.object(engine.forcedInduction, '$.engine.forcedInduction');
+    if (fi) checkForcedInduction(c, fi);
+  }
+}
+
+function checkForcedInduction(c: Checker, fi: JsonObject): void {
+  const path = '$.engine.forcedInduction';
+  c.oneOf(fi.type, `${path}.type`, ['turbo', 'supercharger'] as const);
+  c.numbers(fi, path, {
+    maxBoost: POSITIVE,
+    spoolRpm: POSITIVE,
+    spoolTime: POSITIVE,
+    torquePerBar: NON_NEGATIVE,
+    fuelEnrichment: NON_NEGATIVE,
+  });
+}
+
+function checkTransmission(c: Checker, trans: JsonObject): void {
+  const ratios = c.array(trans.gearRatios, '$.transmission.gearRatios', 1);
+  let prev = Infinity;
+  ratios?.forEach((ratio, i) => {
+    const path = `$.transmission.gearRatios[${i}]`;
+    const value = c.number(ratio, path, POSITIVE);
+    if (value === null || value <= 0) return;
+    if (value >= prev) c.fail(path, `gear ratios must be descending, ${value} follows ${prev}`);
+    prev = value;
+  });
+
+  const n = c.numbers(trans, '$.transmission', {
+    reverseRatio: { below: 0 },
+    finalDriveRatio: POSITIVE,
+    efficiency: { above: 0, max: 1 },
+    shiftUpRpm: POSITIVE,
+    shiftDownRpm: POSITIVE,
+    shiftDelay: NON_NEGATIVE,
+  });
+  c.less(n.shiftDownRpm, n.shiftUpRpm, '$.transmission.shiftDownRpm',
+    `must be below shiftUpRpm (${n.shiftUpRpm})`);
+  if (trans.mode !== undefined) {
+    c.oneOf(trans.mode, '$.transmission.mode', ['manual', 'automatic'] as const);
+  }
+}
+
+function checkWheels(c: Checker, wheels: JsonObject): void {
+  c.numbers(wheels, '$.wheels', {
+    radius: POSITIVE,
+    suspensionRestLength: POSITIVE,
+    suspensionStiffness: POSITIVE,
+    suspensionDamping: NON_NEGATIVE,
+    maxSuspensionTravel: POSITIVE,
+    frictionSlip: POSITIVE,
+  });
+  const positions = c.array(wheels.positions, '$.wheels.positions');
+  if (positions && positions.length !== 4) {
+    c.fail('$.wheels.positions', `expected 4 wheel positions (FL, FR, RL, RR), got ${positions.length}`);
+  }
+  positions?.forEach((pos, i) => c.tuple(pos, `$.wheels.positions[${i}]`, 3));
+}
+
+function checkVisuals(c: Checker, visuals: JsonObject): void {
+  c.color(visuals.bodyColor, '$.visuals.bodyColor');
+  c.color(visuals.cabinColor, '$.visuals.cabinColor');
+  const cabin = c.object(visuals.cabin, '$.visuals.cabin');
+  if (cabin) {
+    c.numbers(cabin, '$.visuals.cabin', {
+      width: { above: 0, max: 1 },
+      height: POSITIVE,
+      length: { above: 0, max: 1 },
+      offset: { min: -0.5, max: 0.5 },
+    });
+  }
+  const lights = c.object(visuals.lights, '$.visuals.lights');
+  if (lights) {
+    c.numbers(lights, '$.visuals.lights', {
+      headlightSpacing: { min: 0, max: 0.5 },
+      headlightHeight: {},
+      taillightSpacing: { min: 0, max: 0.5 },
+      taillightHeight: {},
+    });
+  }
+}
+
+function checkAids(c: Checker, aids: JsonObject): void {
+  if (aids.abs !== undefined) {
+    const abs = c.object(aids.abs, '$.aids.abs');
+    if (abs) c.numbers(abs, '$.aids.abs', { slipThreshold: POSITIVE });
+  }
+  if (aids.traction !== undefined) {
+    const traction = c.object(aids.traction, '$.aids.traction');
+    if (traction) c.numbers(traction, '$.aids.traction', { slipThreshold: POSITIVE });
+  }
+  if (aids.stability !== undefined) {
+    const stability = c.object(aids.stability, '$.aids.stability');
+    if (stability) c.numbers(stability, '$.aids.stability', { yawThreshold: POSITIVE, brakeForce: POSITIVE });
+  }
+}
+
+type SectionLookup = (key: string) => JsonObject | null;
+
+function checkCombustion(c: Checker, section: SectionLookup): void {
+  const engine = section('engine');
+  if (engine) checkEngine(c, engine);
+
+  const cooling = section('cooling');
+  if (cooling) {
+    const n = c.numbers(cooling, '$.cooling', {
+      thermostatTemp: {},
+      overheatTemp: {},
+      damageTemp: {},
+      heatCapacity: POSITIVE,
+      radiatorConductance: NON_NEGATIVE,
+      airflowConductance: NON_NEGATIVE,
+      fanConductance: NON_NEGATIVE,
+    });
+    c.less(n.thermostatTemp, n.overheatTemp, '$.cooling.thermostatTemp',
+      `must be below overheatTemp (${n.overheatTemp})`);
+    c.less(n.overheatTemp, n.damageTemp, '$.cooling.overheatTemp',
+      `must be below damageTemp (${n.damageTemp})`);
+  }
+
+  const clutch = section('clutch');
+  if (clutch) {
+    c.numbers(clutch, '$.clutch', {
+      maxTorque: POSITIVE,
+      bitePoint: { above: 0, max: 1 }, // divides the pedal travel in Clutch.getEngagement
+      releaseTime: POSITIVE,
+      heatCapacity: POSITIVE,
+      coolingRate: NON_NEGATIVE,
+    });
+  }
+
+  const transmission = section('transmission');
+  if (transmission) checkTransmission(c, transmission);
+
+  const fuel = section('fuel');
+  if (fuel) c.numbers(fuel, '$.fuel', { tankCapacity: POSITIVE, bsfc: POSITIVE, fuelDensity: POSITIVE });
+}
+
+function checkElectric(c: Checker, section: SectionLookup): void {
+  const motor = section('motor');
+  if (motor) {
+    c.numbers(motor, '$.motor', {
+      maxTorque: POSITIVE,
+      maxPower: POSITIVE,
+      maxRpm: POSITIVE,
+      inertia: POSITIVE,
+      efficiency: { above: 0, max: 1 },
+    });
+    const regen = c.object(motor.regen, '$.motor.regen');
+    if (regen) {
+      c.numbers(regen, '$.motor.regen', { maxTorque: NON_NEGATIVE, maxPower: NON_NEGATIVE, coastLevel: FRACTION });
+    }
+  }
+
+  const reduction = section('reduction');
+  if (reduction) c.numbers(reduction, '$.reduction', { ratio: POSITIVE, efficiency: { above: 0, max: 1 } });
+
+  const battery = section('battery');
+  if (battery) {
+    c.numbers(battery, '$.battery', { capacity: POSITIVE, maxChargePower: POSITIVE, auxiliaryPower: NON_NEGATIVE });
+  }
+}
+
+/** Validate parsed vehicle JSON, throwing a ConfigValidationError listing every problem */
+export function validateVehicleConfig(raw: unknown, source = 'vehicle config'): VehicleConfig {
+  const c = new Checker();
+  const root = c.object(raw, '$');
+  if (root) {
+    const section = (key: string) => c.object(root[key], `$.${key}`);
+
+    c.string(root.name, '$.name');
+    if (root.description !== undefined) c.string(root.description, '$.description');
+
+    const chassis = section('chassis');
+    if (chassis) {
+      c.numbers(chassis, '$.chassis', { mass: POSITIVE, width: POSITIVE, height: POSITIVE, length: POSITIVE });
+    }
+
+    const powertrain = root.powertrain === undefined
+      ? 'combustion'
+      : c.oneOf(root.powertrain, '$.powertrain', ['combustion', 'electric'] as const);
+    if (powertrain === 'combustion') checkCombustion(c, section);
+    if (powertrain === 'electric') checkElectric(c, section);
+
+    const drivetrain = section('drivetrain');
+    if (drivetrain) {
+      c.oneOf(drivetrain.layout, '$.drivetrain.layout', ['FWD', 'RWD', 'AWD'] as const);
+      if (drivetrain.centerSplit !== undefined) {
+        c.number(drivetrain.centerSplit, '$.drivetrain.centerSplit', FRACTION);
+      }
+      if (drivetrain.centerDiff !== undefined) {
+        checkDifferential(c, drivetrain.centerDiff, '$.drivetrain.centerDiff');
+      }
+      checkDifferential(c, drivetrain.frontDiff, '$.drivetrain.frontDiff');
+      checkDifferential(c, drivetrain.rearDiff, '$.drivetrain.rearDiff');
+    }
+
+    const wheels = section('wheels');
+    if (wheels) checkWheels(c, wheels);
+
+    const tires = section('tires');
+    if (tires) {
+      c.numbers(tires, '$.tires', {
+        inertia: POSITIVE,
+        peakSlipRatio: POSITIVE,
+        slidingFriction: { above: 0, max: 1 },
+        rollingResistance: NON_NEGATIVE,
+      });
+    }
+
+    const aero = section('aerodynamics');
+    if (aero) c.numbers(aero, '$.aerodynamics', { dragCoefficient: NON_NEGATIVE, frontalArea: NON_NEGATIVE });
+
+    const steering = section('steering');
+    if (steering) {
+      c.numbers(steering, '$.steering', {
+        maxAngle: { above: 0, below: Math.PI / 2 },
+        speed: POSITIVE,
+        returnSpeed: POSITIVE,
+      });
+    }
+
+    const brakes = section('brakes');
+    if (brakes) c.numbers(brakes, '$.brakes', { maxForce: POSITIVE });
+
+    const damage = section('damage');
+    if (damage) {
+      c.numbers(damage, '$.damage', {
+        impactThreshold: NON_NEGATIVE,
+        impactToFullDamage: POSITIVE,
+        maxSteeringOffset: NON_NEGATIVE,
+        maxLeakRate: NON_NEGATIVE,
+      });
+    }
+
+    if (root.hitchPoint !== undefined) c.tuple(root.hitchPoint, '$.hitchPoint', 3);
+
+    const visuals = section('visuals');
+    if (visuals) checkVisuals(c, visuals);
+
+    if (root.aids !== undefined) {
+      const aids = c.object(root.aids, '$.aids');
+      if (aids) checkAids(c, aids);
+    }
+  }
+
+  if (c.issues.length > 0) throw new ConfigValidationError(source, c.issues);
+  return raw as VehicleConfig;
+}
+
+/** Validate parsed trailer JSON, throwing a ConfigValidationError listing every problem */
+export function validateTrailerConfig(raw: unknown, source = 'trailer config'): TrailerConfig {
+  const c = new Checker();
+  const root = c.object(raw, '$');
+  if (root) {
+    const section = (key: string) => c.object(root[key], `$.${key}`);
+
+    c.string(root.name, '$.name');
+
+    const chassis = section('chassis');
+    if (chassis) {
+      c.numbers(chassis, '$.chassis', { mass: POSITIVE, width: POSITIVE, height: POSITIVE, length: POSITIVE });
+    }
+
+    const hitch = section('hitch');
+    if (hitch) c.numbers(hitch, '$.hitch', { drawbarLength: POSITIVE, height: {} });
+
+    const wheels = section('wheels');
+    if (wheels) {
+      c.numbers(wheels, '$.wheels', {
+        radius: POSITIVE,
+        suspensionRestLength: POSITIVE,
+        suspensionStiffness: POSITIVE,
+        suspensionDamping: NON_NEGATIVE,
+        maxSuspensionTravel: POSITIVE,
+        frictionSlip: POSITIVE,
+      });
+      const positions = c.array(wheels.positions, '$.wheels.positions', 2);
+      positions?.forEach((pos, i) => c.tuple(pos, `$.wheels.positions[${i}]`, 3));
+    }
+
+    const tires = section('tires');
+    if (tires) c.numbers(tires, '$.tires', { rollingResistance: NON_NEGATIVE });
+
+    const aero = section('aerodynamics');
+    if (aero) c.numbers(aero, '$.aerodynamics', { dragCoefficient: NON_NEGATIVE, frontalArea: NON_NEGATIVE });
+
+    const brakes = section('brakes');
+    if (brakes) c.numbers(brakes, '$.brakes', { maxForce: NON_NEGATIVE });
+
+    const visuals = section('visuals');
+    if (visuals) {
+      c.color(visuals.bodyColor, '$.visuals.bodyColor');
+      c.color(visuals.stripeColor, '$.visuals.stripeColor');
+    }
+  }
+
+  if (c.issues.length > 0) throw new ConfigValidationError(source, c.issues);
+  return raw as TrailerConfig;
+}
+
+/** Validate parsed road JSON, throwing a ConfigValidationError listing every problem */
+export function validateRoadConfig(raw: unknown, source = 'road config'): RoadConfig {
+  const c = new Checker();
+  const root = c.object(raw, '$');
+  if (root) {
+    c.string(root.name, '$.name');
+    c.number(root.defaultWidth, '$.defaultWidth', POSITIVE);
+    const waypoints = c.array(root.waypoints, '$.waypoints', 2);
+    waypoints?.forEach((wp, i) => {
+      const path = `$.waypoints[${i}]`;
+      const waypoint = c.object(wp, path);
+      if (!waypoint) return;
+      c.tuple(waypoint.position, `${path}.position`, 3);
+      if (waypoint.width !== undefined) c.number(waypoint.width, `${path}.width`, POSITIVE);
+    });
+    if (root.mileposts !== undefined) {
+      const mileposts = c.object(root.mileposts, '$.mileposts');
+      if (mileposts) {
+        c.oneOf(mileposts.unit, '$.mileposts.unit', ['mile', 'km'] as const);
+        c.number(mileposts.spacing, '$.mileposts.spacing', POSITIVE);
+      }
+    }
+  }
+
+  if (c.issues.length > 0) throw new ConfigValidationError(source, c.issues);
+  return raw as RoadConfig;
+}
@@ -0,0 +1,137 @@
+import { clamp } from '../utils/math';
+
+// Standard-mapping button indices (Xbox labels)
+export const PadButton = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  Back: 8,
+  Start: 9,
+  LeftStick: 10,
+  RightStick: 11,
+  DpadUp: 12,
+  DpadDown: 13,
+  DpadLeft: 14,
+  DpadRight: 15,
+} as const;
+
+const STICK_DEADZONE = 0.12;
+const TRIGGER_DEADZONE = 0.05;
+const STEER_EXPONENT = 1.6; // >1 softens small stick movements around centre
+const PEDAL_EXPONENT = 1.3;
+const PRESS_THRESHOLD = 0.5; // analog value at which a button counts as pressed
+
+/** Rescale past the deadzone so the usable range still starts at 0 */
+function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return Math.sign(value) * (magnitude - deadzone) / (1 - deadzone);
+}
+
+/** Power response curve that keeps the sign */
+function applyCurve(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * First connected standard-mapping gamepad, polled once per physics step.
+ * Triggers and the left stick become shaped analog axes; buttons follow
+ * the keyboard's held / just-pressed split.
+ */
+export class GamepadInput {
+  private index: number | null = null;
+  private held = new Set<number>();
+  private justPressed = new Set<number>();
+  private values: number[] = [];
+  private steer = 0;
+
+  constructor() {
+    window.addEventListener('gamepadconnected', (e) => {
+      if (this.index === null && e.gamepad.mapping === 'standard') this.index = e.gamepad.index;
+    });
+    window.addEventListener('gamepaddisconnected', (e) => {
+      if (e.gamepad.index !== this.index) return;
+      this.index = null;
+      this.held.clear();
+      this.values = [];
+      this.steer = 0;
+    });
+  }
+
+  /** Read the pad; just-pressed buttons accumulate until clearPressed() */
+  poll(): void {
+    const pad = this.getGamepad();
+    if (!pad) return;
+
+    const now = new Set<number>();
+    pad.buttons.forEach((button, i) => {
+      if (button.pressed || button.value > PRESS_THRESHOLD) now.add(i);
+    });
+    for (const i of now) {
+      if (!this.held.has(i)) this.justPressed.add(i);
+    }
+    this.held = now;
+
+    // Triggers are analog; digital buttons read 0 or 1 through the same curve
+    this.values = pad.buttons.map((button) => applyCurve(
+      applyDeadzone(button.value, TRIGGER_DEADZONE), PEDAL_EXPONENT,
+    ));
+    // Stick right is +x; steering is positive to the left
+    this.steer = -applyCurve(applyDeadzone(pad.axes[0] ?? 0, STICK_DEADZONE), STEER_EXPONENT);
+  }
+
+  isConnected(): boolean {
+    return this.index !== null;
+  }
+
+  isHeld(button: number): boolean {
+    return this.held.has(button);
+  }
+
+  wasPressed(button: number): boolean {
+    return this.justPressed.has(button);
+  }
+
+  /** Shaped 0..1 position, e.g. how far a trigger is pulled */
+  getButtonValue(button: number): number {
+    return this.values[button] ?? 0;
+  }
+
+  /** Lowest-numbered button pressed since the last clearPressed(), if any */
+  getPressedButton(): number | null {
+    return this.justPressed.size > 0 ? Math.min(...this.justPressed) : null;
+  }
+
+  /** -1..1, positive steering left */
+  getSteer(): number {
+    return this.steer;
+  }
+
+  /** Rumble both motors, 0..1 strength, if the pad supports it */
+  vibrate(strength: number, durationMs: number): void {
+    const actuator = this.getGamepad()?.vibrationActuator;
+    if (!actuator) return;
+    const magnitude = clamp(strength, 0, 1);
+    actuator.playEffect('dual-rumble', {
+      duration: durationMs,
+      strongMagnitude: magnitude,
+      weakMagnitude: magnitude * 0.6,
+    }).catch(() => {
+      // Haptics are best effort; some browsers reject while the page is hidden
+    });
+  }
+
+  clearPressed(): void {
+    this.justPressed.clear();
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (this.index === null) return null;
+    return navigator.getGamepads()[this.index] ?? null;
+  }
+}
@@ -0,0 +1,223 @@
+import type { InputAction } from '../types';
+import { PadButton } from './GamepadInput';
+
+const STORAGE_KEY = 'miles-of-solitude.bindings';
+const PAD_PREFIX = 'Pad';
+
+const PAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3',
+  'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right',
+];
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: 'L-Shift',
+  ShiftRight: 'R-Shift',
+  ControlLeft: 'L-Ctrl',
+  ControlRight: 'R-Ctrl',
+  AltLeft: 'L-Alt',
+  AltRight: 'R-Alt',
+  Equal: '+',
+  Minus: '-',
+  Comma: ',',
+  Period: '.',
+  NumpadAdd: 'Num +',
+  NumpadSubtract: 'Num -',
+};
+
+/** Binding string for a standard-mapping gamepad button */
+export function padBinding(button: number): string {
+  return `${PAD_PREFIX}${button}`;
+}
+
+/** Gamepad button index of a binding, or null for a keyboard code */
+export function parsePadBinding(binding: string): number | null {
+  if (!binding.startsWith(PAD_PREFIX)) return null;
+  const button = Number(binding.slice(PAD_PREFIX.length));
+  return Number.isInteger(button) ? button : null;
+}
+
+export interface ActionDefinition {
+  label: string; // shown in the controls screen
+  hint: string; // controls hint; neighbouring actions with the same hint share an entry
+  defaults: string[];
+}
+
+/**
+ * Every bindable action in display order. A binding is a KeyboardEvent.code,
+ * so keys stay put on any layout, or "Pad<n>" for a gamepad button.
+ */
+export const INPUT_ACTIONS: Record<InputAction, ActionDefinition> = {
+  throttle: { label: 'Throttle', hint: 'Drive', defaults: ['KeyW', 'ArrowUp', padBinding(PadButton.RT)] },
+  steerLeft: { label: 'Steer Left', hint: 'Drive', defaults: ['KeyA', 'ArrowLeft'] },
+  reverse: { label: 'Part Throttle (reversing)', hint: 'Drive', defaults: ['KeyS', 'ArrowDown'] },
+  steerRight: { label: 'Steer Right', hint: 'Drive', defaults: ['KeyD', 'ArrowRight'] },
+  shiftUp: { label: 'Shift Up', hint: 'Shift Up', defaults: ['KeyE', 'ShiftLeft', padBinding(PadButton.RB)] },
+  shiftDown: {
+    label: 'Shift Down', hint: 'Shift Down', defaults: ['KeyQ', 'ControlLeft', padBinding(PadButton.LB)],
+  },
+  selectorUp: { label: 'Selector towards P', hint: 'Selector P/R/N/D', defaults: ['KeyZ', padBinding(PadButton.DpadUp)] },
+  selectorDown: {
+    label: 'Selector towards D', hint: 'Selector P/R/N/D', defaults: ['KeyX', padBinding(PadButton.DpadDown)],
+  },
+  handbrake: { label: 'Handbrake On / Off', hint: 'Handbrake', defaults: ['KeyG'] },
+  clutch: { label: 'Clutch', hint: 'Clutch', defaults: ['KeyF', padBinding(PadButton.B)] },
+  ignitionKey: { label: 'Ignition / Start (hold)', hint: 'Ignition/Start', defaults: ['KeyI', padBinding(PadButton.Start)] },
+  ignitionOff: { label: 'Key Off', hint: 'Key Off', defaults: ['KeyO', padBinding(PadButton.RightStick)] },
+  repair: { label: 'Repair at Gas Station', hint: 'Repair at Gas Station', defaults: ['KeyH'] },
+  refuel: { label: 'Refuel at Gas Station', hint: 'Refuel', defaults: ['KeyP'] },
+  trailerHitch: { label: 'Hitch / Unhitch Trailer', hint: 'Hitch/Unhitch Trailer', defaults: ['KeyT'] },
+  cruiseSet: {
+    label: 'Cruise Set / Resume / Off', hint: 'Cruise Set/Resume/Off', defaults: ['KeyV', padBinding(PadButton.A)],
+  },
+  cruiseLimiter: { label: 'Speed Limiter', hint: 'Speed Limiter', defaults: ['KeyB', padBinding(PadButton.X)] },
+  cruiseUp: {
+    label: 'Set Speed +', hint: 'Set Speed', defaults: ['Equal', 'NumpadAdd', padBinding(PadButton.DpadRight)],
+  },
+  cruiseDown: {
+    label: 'Set Speed -', hint: 'Set Speed', defaults: ['Minus', 'NumpadSubtract', padBinding(PadButton.DpadLeft)],
+  },
+  tripCycle: { label: 'Trip Computer Page', hint: 'Trip Computer', defaults: ['KeyJ'] },
+  tripReset: { label: 'Reset Trip Meter', hint: 'Reset Trip', defaults: ['KeyU'] },
+  brake: { label: 'Brake', hint: 'Brake', defaults: ['Space', padBinding(PadButton.LT)] },
+  cameraToggle: { label: 'Camera', hint: 'Camera', defaults: ['KeyC', padBinding(PadButton.Y)] },
+  freeLookToggle: { label: 'Free Look', hint: 'Free Look', defaults: ['KeyK'] },
+  highBeamToggle: { label: 'High Beam', hint: 'High Beam', defaults: ['KeyL', padBinding(PadButton.LeftStick)] },
+  signalLeft: { label: 'Turn Signal Left', hint: 'Signal', defaults: ['Comma'] },
+  signalRight: { label: 'Turn Signal Right', hint: 'Signal', defaults: ['Period'] },
+  hazards: { label: 'Hazard Lights', hint: 'Hazards', defaults: ['KeyN'] },
+  reset: { label: 'Reset Vehicle', hint: 'Reset', defaults: ['KeyR', padBinding(PadButton.Back)] },
+};
+
+const ACTIONS = Object.keys(INPUT_ACTIONS) as InputAction[];
+
+/** Subset of the Keyboard API (Chromium only) used to label keys by layout */
+interface KeyboardLayoutApi {
+  getLayoutMap(): Promise<Map<string, string>>;
+}
+
+/**
+ * The player's key and button bindings for each action, persisted to
+ * localStorage. A binding belongs to one action at a time: binding it
+ * somewhere else takes it away from its previous action.
+ */
+export class InputBindings {
+  private readonly bindings = new Map<InputAction, string[]>();
+  private readonly listeners = new Set<() => void>();
+  private keyLabels = new Map<string, string>();
+
+  constructor() {
+    this.load();
+    this.loadKeyboardLayout();
+  }
+
+  get(action: InputAction): readonly string[] {
+    return this.bindings.get(action) ?? [];
+  }
+
+  /** Actions other than `except` that already use `binding` */
+  findConflicts(binding: string, except?: InputAction): InputAction[] {
+    return ACTIONS.filter((action) => action !== except && this.get(action).includes(binding));
+  }
+
+  /**
+   * Bind `binding` to `action`, in place of `replace` if given. Returns the
+   * actions it was taken away from.
+   */
+  bind(action: InputAction, binding: string, replace?: string): InputAction[] {
+    const conflicts = this.findConflicts(binding, action);
+    for (const other of conflicts) {
+      this.bindings.set(other, this.get(other).filter((b) => b !== binding));
+    }
+
+    const list = this.get(action).filter((b) => b !== binding);
+    const index = replace !== undefined ? list.indexOf(replace) : -1;
+    if (index >= 0) {
+      list[index] = binding;
+    } else {
+      list.push(binding);
+    }
+    this.bindings.set(action, list);
+    this.changed();
+    return conflicts;
+  }
+
+  unbind(action: InputAction, binding: string): void {
+    this.bindings.set(action, this.get(action).filter((b) => b !== binding));
+    this.changed();
+  }
+
+  resetToDefaults(): void {
+    for (const action of ACTIONS) {
+      this.bindings.set(action, [...INPUT_ACTIONS[action].defaults]);
+    }
+    this.changed();
+  }
+
+  onChange(callback: () => void): void {
+    this.listeners.add(callback);
+  }
+
+  /** Human-readable name for a binding, using the keyboard layout where the browser reports it */
+  describe(binding: string): string {
+    const button = parsePadBinding(binding);
+    if (button !== null) return PAD_BUTTON_NAMES[button] ?? `Button ${button}`;
+    const label = this.keyLabels.get(binding);
+    if (label) return label.toUpperCase();
+    if (KEY_NAMES[binding]) return KEY_NAMES[binding];
+    if (binding.startsWith('Key')) return binding.slice(3);
+    if (binding.startsWith('Digit')) return binding.slice(5);
+    if (binding.startsWith('Numpad')) return `Num ${binding.slice(6)}`;
+    return binding;
+  }
+
+  private changed(): void {
+    this.save();
+    for (const callback of this.listeners) callback();
+  }
+
+  /** Saved bindings over the defaults; anything unreadable falls back to the default */
+  private load(): void {
+    let saved: Record<string, unknown> = {};
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        saved = parsed as Record<string, unknown>;
+      }
+    } catch (err) {
+      console.warn('Ignoring saved key bindings:', err);
+    }
+
+    for (const action of ACTIONS) {
+      const list = saved[action];
+      const valid = Array.isArray(list) && list.every((b) => typeof b === 'string');
+      this.bindings.set(action, valid ? [...list] : [...INPUT_ACTIONS[action].defaults]);
+    }
+  }
+
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.bindings)));
+    } catch (err) {
+      console.warn('Could not save key bindings:', err);
+    }
+  }
+
+  /** Label letter and digit keys as printed on the player's keyboard (e.g. AZERTY) */
+  private loadKeyboardLayout(): void {
+    const keyboard = (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard;
+    keyboard?.getLayoutMap().then((layout) => {
+      for (const [code, key] of layout) {
+        if (code.startsWith('Key') || code.startsWith('Digit')) this.keyLabels.set(code, key);
+      }
+      for (const callback of this.listeners) callback();
+    }).catch(() => {
+      // Not allowed (e.g. in an iframe); code-based names are still correct for QWERTY
+    });
+  }
+}
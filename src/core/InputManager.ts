@@ -1,21 +1,37 @@
-import type { InputState } from '../types';
+import type { InputAction, InputState } from '../types';
+import { GamepadInput } from './GamepadInput';
+import { InputBindings, padBinding, parsePadBinding } from './InputBindings';
+import { TouchInput } from './TouchInput';
+
+const REVERSE_THROTTLE = 0.6; // part throttle for backing up
 
 export class InputManager {
+  readonly bindings = new InputBindings();
   private keys = new Set<string>();
+  private readonly gamepad = new GamepadInput();
+  private readonly touch = new TouchInput();
   private justPressed = new Set<string>();
   private mouseDX = 0;
   private mouseDY = 0;
   private pointerLocked = false;
+  private capture: ((binding: string | null) => void) | null = null;
+  private captureFrame = 0;
 
   constructor(canvas: HTMLCanvasElement) {
     window.addEventListener('keydown', (e) => {
+      if (this.capture) {
+        e.preventDefault();
+        this.finishCapture(e.code === 'Escape' ? null : e.code);
+        return;
+      }
+
       if (!this.keys.has(e.code)) {
         this.justPressed.add(e.code);
       }
       this.keys.add(e.code);
 
-      // Toggle pointer lock on K (must be in user gesture context)
-      if (e.code === 'KeyK') {
+      // Toggle pointer lock with the free-look key (must be in user gesture context)
+      if (this.bindings.get('freeLookToggle').includes(e.code)) {
         if (this.pointerLocked) {
           document.exitPointerLock();
         } else {
@@ -45,27 +61,127 @@ export class InputManager {
     });
   }
 
+  /**
+   * Keyboard, gamepad and touch merged into one state. Keys drive the axes
+   * to full travel; pad triggers and touch pedals give partial values.
+   */
   getState(): InputState {
+    this.gamepad.poll();
+
+    const bindingSteer = this.getAxis('steerLeft') - this.getAxis('steerRight');
+    const padSteer = this.gamepad.getSteer();
+    let steer = this.touch.getSteer();
+    if (padSteer !== 0) steer = padSteer;
+    if (bindingSteer !== 0) steer = bindingSteer;
+
     return {
-      forward: this.keys.has('KeyW') || this.keys.has('ArrowUp'),
-      backward: this.keys.has('KeyS') || this.keys.has('ArrowDown'),
-      left: this.keys.has('KeyA') || this.keys.has('ArrowLeft'),
-      right: this.keys.has('KeyD') || this.keys.has('ArrowRight'),
-      brake: this.keys.has('Space'),
-      shiftUp: this.justPressed.has('KeyE') || this.justPressed.has('ShiftLeft'),
-      shiftDown: this.justPressed.has('KeyQ') || this.justPressed.has('ControlLeft'),
-      cameraToggle: this.justPressed.has('KeyC'),
-      freeLookToggle: this.justPressed.has('KeyK'),
-      highBeamToggle: this.justPressed.has('KeyL'),
-      reset: this.justPressed.has('KeyR'),
+      throttle: Math.max(
+        this.getAxis('throttle'), this.isHeld('reverse') ? REVERSE_THROTTLE : 0, this.touch.getThrottle(),
+      ),
+      brake: Math.max(this.getAxis('brake'), this.touch.getBrake()),
+      steer,
+      clutch: Math.max(this.getAxis('clutch'), this.touch.getClutch()),
+      ignitionKey: this.isHeld('ignitionKey'),
+      ignitionOff: this.wasPressed('ignitionOff'),
+      shiftUp: this.wasPressed('shiftUp'),
+      shiftDown: this.wasPressed('shiftDown'),
+      selectorUp: this.wasPressed('selectorUp'),
+      selectorDown: this.wasPressed('selectorDown'),
+      handbrake: this.wasPressed('handbrake'),
+      cameraToggle: this.wasPressed('cameraToggle'),
+      freeLookToggle: this.wasPressed('freeLookToggle'),
+      highBeamToggle: this.wasPressed('highBeamToggle'),
+      signalLeft: this.wasPressed('signalLeft'),
+      signalRight: this.wasPressed('signalRight'),
+      hazards: this.wasPressed('hazards'),
+      repair: this.wasPressed('repair'),
+      refuel: this.wasPressed('refuel'),
+      trailerHitch: this.wasPressed('trailerHitch'),
+      cruiseSet: this.wasPressed('cruiseSet'),
+      cruiseLimiter: this.wasPressed('cruiseLimiter'),
+      cruiseUp: this.wasPressed('cruiseUp'),
+      cruiseDown: this.wasPressed('cruiseDown'),
+      tripCycle: this.wasPressed('tripCycle'),
+      tripReset: this.wasPressed('tripReset'),
+      reset: this.wasPressed('reset'),
       mouseDeltaX: this.mouseDX,
       mouseDeltaY: this.mouseDY,
     };
   }
 
+  /**
+   * Hand the next key or gamepad button to `callback` instead of the game,
+   * for rebinding. Escape cancels with null.
+   */
+  captureNext(callback: (binding: string | null) => void): void {
+    this.cancelCapture();
+    this.capture = callback;
+    this.keys.clear();
+
+    // Buttons already down when capture starts don't count
+    this.gamepad.poll();
+    this.gamepad.clearPressed();
+    const pollPad = () => {
+      this.gamepad.poll();
+      const button = this.gamepad.getPressedButton();
+      this.gamepad.clearPressed();
+      if (button !== null) {
+        this.finishCapture(padBinding(button));
+      } else {
+        this.captureFrame = requestAnimationFrame(pollPad);
+      }
+    };
+    this.captureFrame = requestAnimationFrame(pollPad);
+  }
+
+  cancelCapture(): void {
+    cancelAnimationFrame(this.captureFrame);
+    this.capture = null;
+  }
+
+  /** Rumble the gamepad (0..1 strength), if one with haptics is connected */
+  vibrate(strength: number, durationMs: number): void {
+    this.gamepad.vibrate(strength, durationMs);
+  }
+
   endFrame(): void {
     this.justPressed.clear();
+    this.gamepad.clearPressed();
+    this.touch.clearPressed();
     this.mouseDX = 0;
     this.mouseDY = 0;
   }
+
+  private finishCapture(binding: string | null): void {
+    const callback = this.capture;
+    this.cancelCapture();
+    callback?.(binding);
+  }
+
+  private isHeld(action: InputAction): boolean {
+    if (this.touch.isHeld(action)) return true;
+    return this.bindings.get(action).some((binding) => {
+      const button = parsePadBinding(binding);
+      return button !== null ? this.gamepad.isHeld(button) : this.keys.has(binding);
+    });
+  }
+
+  private wasPressed(action: InputAction): boolean {
+    if (this.touch.wasPressed(action)) return true;
+    return this.bindings.get(action).some((binding) => {
+      const button = parsePadBinding(binding);
+      return button !== null ? this.gamepad.wasPressed(button) : this.justPressed.has(binding);
+    });
+  }
+
+  /** 0..1: a held key is full travel, a pad button gives its analog position */
+  private getAxis(action: InputAction): number {
+    let value = 0;
+    for (const binding of this.bindings.get(action)) {
+      const button = parsePadBinding(binding);
+      const v = button !== null ? this.gamepad.getButtonValue(button) : this.keys.has(binding) ? 1 : 0;
+      value = Math.max(value, v);
+    }
+    return value;
+  }
 }
@@ -0,0 +1,208 @@
+import type { InputAction } from '../types';
+import { clamp } from '../utils/math';
+
+const PAD_MIN_VALUE = 0.25; // a touch at the bottom of a pedal pad still does something
+const TILT_RANGE = 30; // degrees of tilt for full lock
+const TILT_DEADZONE = 2; // degrees ignored around level
+
+/** iOS 13+ asks before handing out orientation data */
+interface OrientationPermission {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+}
+
+/**
+ * On-screen controls for phones and tablets: a steering slider (or tilt
+ * steering), clutch, brake and throttle pads and a few buttons. Shown
+ * automatically once the device reports touch support or the first touch
+ * arrives.
+ *
+ * Pedal pads are pressure style: a harder press, where the screen reports
+ * force, or a touch higher up the pad gives more pedal.
+ */
+export class TouchInput {
+  private readonly rootEl: HTMLElement;
+  private readonly steerTrackEl: HTMLElement;
+  private readonly steerKnobEl: HTMLElement;
+  private readonly tiltBtn: HTMLElement;
+  private active = false;
+  private sliderSteer = 0;
+  private tiltSteer = 0;
+  private tiltEnabled = false;
+  private throttle = 0;
+  private brake = 0;
+  private clutch = 0;
+  private held = new Set<InputAction>();
+  private justPressed = new Set<InputAction>();
+
+  constructor() {
+    this.rootEl = document.getElementById('touch-controls')!;
+    this.steerTrackEl = document.getElementById('touch-steer')!;
+    this.steerKnobEl = document.getElementById('touch-steer-knob')!;
+    this.tiltBtn = document.getElementById('touch-tilt')!;
+
+    if (navigator.maxTouchPoints > 0) this.activate();
+    window.addEventListener('touchstart', () => this.activate(), { once: true, passive: true });
+
+    this.setupSteering();
+    this.setupPedal(document.getElementById('touch-throttle')!, (value) => { this.throttle = value; });
+    this.setupPedal(document.getElementById('touch-brake')!, (value) => { this.brake = value; });
+    this.setupPedal(document.getElementById('touch-clutch')!, (value) => { this.clutch = value; });
+    this.rootEl.querySelectorAll<HTMLElement>('[data-action]').forEach((button) => this.setupButton(button));
+    this.tiltBtn.addEventListener('click', () => this.toggleTilt());
+    window.addEventListener('deviceorientation', (e) => this.onOrientation(e));
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /** 0..1 */
+  getThrottle(): number {
+    return this.throttle;
+  }
+
+  /** 0..1 */
+  getBrake(): number {
+    return this.brake;
+  }
+
+  /** 0..1 */
+  getClutch(): number {
+    return this.clutch;
+  }
+
+  /** -1..1, positive steering left */
+  getSteer(): number {
+    return this.tiltEnabled ? this.tiltSteer : this.sliderSteer;
+  }
+
+  isHeld(action: InputAction): boolean {
+    return this.held.has(action);
+  }
+
+  wasPressed(action: InputAction): boolean {
+    return this.justPressed.has(action);
+  }
+
+  clearPressed(): void {
+    this.justPressed.clear();
+  }
+
+  private activate(): void {
+    if (this.active) return;
+    this.active = true;
+    document.body.classList.add('touch-active');
+  }
+
+  /** Slider springs back to centre when released */
+  private setupSteering(): void {
+    const track = this.steerTrackEl;
+    const move = (e: PointerEvent) => {
+      const rect = track.getBoundingClientRect();
+      const x = clamp(((e.clientX - rect.left) / rect.width) * 2 - 1, -1, 1);
+      this.setSliderSteer(-x);
+    };
+    track.addEventListener('pointerdown', (e) => {
+      track.setPointerCapture(e.pointerId);
+      move(e);
+    });
+    track.addEventListener('pointermove', (e) => {
+      if (track.hasPointerCapture(e.pointerId)) move(e);
+    });
+    const release = () => this.setSliderSteer(0);
+    track.addEventListener('pointerup', release);
+    track.addEventListener('pointercancel', release);
+  }
+
+  private setSliderSteer(steer: number): void {
+    this.sliderSteer = steer;
+    // Knob follows the finger: steering left moves it left
+    this.steerKnobEl.style.left = `${50 - steer * 50}%`;
+  }
+
+  private setupPedal(pad: HTMLElement, set: (value: number) => void): void {
+    const press = (e: PointerEvent) => {
+      const rect = pad.getBoundingClientRect();
+      const height = clamp(1 - (e.clientY - rect.top) / rect.height, 0, 1);
+      let value = PAD_MIN_VALUE + (1 - PAD_MIN_VALUE) * height;
+      // 0.5 is the spec's placeholder for hardware without force sensing
+      if (e.pressure > 0 && e.pressure !== 0.5) value = Math.max(value, e.pressure);
+      set(value);
+      pad.style.setProperty('--pedal', value.toFixed(2));
+    };
+    pad.addEventListener('pointerdown', (e) => {
+      pad.setPointerCapture(e.pointerId);
+      pad.classList.add('pressed');
+      press(e);
+    });
+    pad.addEventListener('pointermove', (e) => {
+      if (pad.hasPointerCapture(e.pointerId)) press(e);
+    });
+    const release = () => {
+      set(0);
+      pad.classList.remove('pressed');
+      pad.style.setProperty('--pedal', '0');
+    };
+    pad.addEventListener('pointerup', release);
+    pad.addEventListener('pointercancel', release);
+  }
+
+  private setupButton(button: HTMLElement): void {
+    const action = button.dataset.action as InputAction;
+    button.addEventListener('pointerdown', (e) => {
+      button.setPointerCapture(e.pointerId);
+      button.classList.add('pressed');
+      if (!this.held.has(action)) this.justPressed.add(action);
+      this.held.add(action);
+    });
+    const release = () => {
+      button.classList.remove('pressed');
+      this.held.delete(action);
+    };
+    button.addEventListener('pointerup', release);
+    button.addEventListener('pointercancel', release);
+  }
+
+  /** Switch between the slider and tilt steering (must run in a user gesture for iOS) */
+  private toggleTilt(): void {
+    if (this.tiltEnabled) {
+      this.setTiltEnabled(false);
+      return;
+    }
+    const permission = (window.DeviceOrientationEvent as unknown as OrientationPermission | undefined)
+      ?.requestPermission;
+    if (!permission) {
+      this.setTiltEnabled(true);
+      return;
+    }
+    permission().then((result) => {
+      this.setTiltEnabled(result === 'granted');
+    }).catch((err) => {
+      console.warn('Tilt steering unavailable:', err);
+    });
+  }
+
+  private setTiltEnabled(enabled: boolean): void {
+    this.tiltEnabled = enabled;
+    this.tiltSteer = 0;
+    this.tiltBtn.classList.toggle('on', enabled);
+    this.steerTrackEl.classList.toggle('disabled', enabled);
+    this.setSliderSteer(0);
+  }
+
+  /** Hold the device like a wheel: rolling it left steers left */
+  private onOrientation(e: DeviceOrientationEvent): void {
+    if (!this.tiltEnabled || e.beta === null || e.gamma === null) return;
+
+    // Roll to the right, positive. In landscape it shows up in beta, its
+    // sign depending on which way round the device is held
+    const angle = screen.orientation?.angle ?? 0;
+    let roll = e.gamma;
+    if (angle === 90) roll = e.beta;
+    else if (angle === 270) roll = -e.beta;
+    else if (angle === 180) roll = -e.gamma;
+
+    const magnitude = Math.max(0, Math.abs(roll) - TILT_DEADZONE);
+    this.tiltSteer = -Math.sign(roll) * clamp(magnitude / TILT_RANGE, 0, 1);
+  }
+}
@@ -8,6 +8,7 @@ export class World {
   readonly scene: THREE.Scene;
   readonly camera: THREE.PerspectiveCamera;
   readonly physicsWorld: RAPIER.World;
+  readonly eventQueue: RAPIER.EventQueue;
   readonly rapier: typeof RAPIER;
   readonly eventBus: EventBus;
   readonly inputManager: InputManager;
@@ -49,6 +50,7 @@ export class World {
     // Physics
     const gravity = new rapier.Vector3(0.0, -9.81, 0.0);
     this.physicsWorld = new rapier.World(gravity);
+    this.eventQueue = new rapier.EventQueue(true);
 
     // Handle resize
     window.addEventListener('resize', () => this.onResize());
@@ -91,11 +93,22 @@ export class World {
 
   stepPhysics(dt: number): void {
     this.physicsWorld.timestep = dt;
-    this.physicsWorld.step();
+    this.physicsWorld.step(this.eventQueue);
+
+    // Forward contact forces from colliders that opted into them
+    this.eventQueue.drainContactForceEvents((event) => {
+      this.eventBus.emit(
+        'physics:contact-force',
+        event.collider1(),
+        event.collider2(),
+        event.totalForceMagnitude(),
+      );
+    });
   }
 
   dispose(): void {
     this.renderer.dispose();
+    this.eventQueue.free();
     this.physicsWorld.free();
     this.eventBus.clear();
   }
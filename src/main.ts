@@ -3,16 +3,30 @@ import RAPIER from '@dimforge/rapier3d-compat';
 import { Engine } from './core/Engine';
 import { World } from './core/World';
 import { VehicleController } from './systems/vehicle/VehicleController';
+import { VehicleCatalog } from './systems/vehicle/VehicleCatalog';
+import type { VehicleEntry } from './systems/vehicle/VehicleCatalog';
+import { Trailer } from './systems/vehicle/Trailer';
+import { FuelPump } from './systems/vehicle/FuelPump';
 import { CameraController } from './systems/camera/CameraController';
 import { HudManager } from './systems/hud/HudManager';
 import { SettingsManager } from './systems/hud/SettingsManager';
+import { VehicleSelectScreen } from './systems/hud/VehicleSelectScreen';
+import { ControlsScreen } from './systems/hud/ControlsScreen';
+import { Minimap } from './systems/hud/Minimap';
 import { RoadManager } from './systems/road/RoadManager';
-import type { VehicleConfig, RoadConfig } from './types';
+import { ConfigValidationError, validateRoadConfig, validateTrailerConfig } from './config/validation';
+import { clamp } from './utils/math';
+import type { GasStationStatus, InputAction } from './types';
 
-import vehicleConfig from './config/vehicles/default-car.json';
-import roadConfig from './config/roads/route-prototype.json';
+import roadJson from './config/roads/route-prototype.json';
+import camperJson from './config/trailers/camper.json';
 
 async function main(): Promise<void> {
+  // Validate configs up front: a bad file should stop here, not produce NaN physics
+  const catalog = new VehicleCatalog();
+  const roadConfig = validateRoadConfig(roadJson, 'route-prototype.json');
+  const trailerConfig = validateTrailerConfig(camperJson, 'camper.json');
+
   // Initialize Rapier WASM
   await RAPIER.init();
 
@@ -24,10 +38,11 @@ async function main(): Promise<void> {
   const world = new World(canvas, RAPIER);
 
   // Create road
-  const roadManager = new RoadManager(world, roadConfig as RoadConfig);
+  const roadManager = new RoadManager(world, roadConfig);
 
-  // Create vehicle
-  const vehicle = new VehicleController(world, vehicleConfig as VehicleConfig);
+  // Create vehicle (the stock car until the driver picks one)
+  let vehicleEntry = catalog.getDefault();
+  let vehicle = new VehicleController(world, vehicleEntry.config);
 
   // Position vehicle at road start
   const startPos = roadManager.getStartPosition();
@@ -39,10 +54,72 @@ async function main(): Promise<void> {
 
   // Create HUD
   const hud = new HudManager();
+  hud.setVehicle(vehicleEntry);
+  const minimap = new Minimap(roadManager.getSpline());
+
+  // Rumble the gamepad on crashes, harder for bigger hits
+  const IMPACT_RUMBLE_ENERGY = 200000; // J for full-strength rumble
+  world.eventBus.on('vehicle:impact', (...args: unknown[]) => {
+    const energy = args[0] as number;
+    world.inputManager.vibrate(clamp(energy / IMPACT_RUMBLE_ENERGY, 0.2, 1), 300);
+  });
 
   // Create settings manager (config menu + night mode)
   const settings = new SettingsManager(world.scene, vehicle);
 
+  // Camper trailer (spawned hitched from the config menu)
+  let trailer: Trailer | null = null;
+  const hitchTrailer = (): void => {
+    if (!trailer) return;
+    trailer.detach();
+    trailer.placeBehind(vehicle);
+    trailer.attach(vehicle);
+  };
+  settings.onTrailerToggle((enabled) => {
+    trailer?.dispose();
+    trailer = null;
+    if (enabled) {
+      trailer = new Trailer(world, trailerConfig);
+      hitchTrailer();
+    }
+  });
+
+  // Vehicle selection: rebuild the controller in place, no reload needed
+  const vehicleSelect = new VehicleSelectScreen(catalog);
+  vehicleSelect.setUnits(hud.getUnits());
+  minimap.setUnits(hud.getUnits());
+  settings.setUnits(hud.getUnits());
+  settings.onUnitsChange((units) => {
+    hud.setUnits(units);
+    vehicleSelect.setUnits(units);
+    minimap.setUnits(units);
+  });
+  const selectVehicle = (entry: VehicleEntry): void => {
+    if (entry.id === vehicleEntry.id) return;
+    trailer?.detach();
+    vehicle.dispose();
+    vehicleEntry = entry;
+    vehicle = new VehicleController(world, entry.config);
+    vehicle.reset(roadManager.getStartPosition());
+    cameraController.initialize(vehicle.getPosition(), vehicle.getQuaternion());
+    settings.setVehicle(vehicle);
+    hud.setVehicle(entry);
+
+    // Bring the trailer along if the new car can tow it
+    if (trailer && vehicle.getHitchPoint()) {
+      hitchTrailer();
+    } else if (trailer) {
+      trailer.dispose();
+      trailer = null;
+      settings.setTrailerEnabled(false);
+    }
+  };
+  settings.onChangeVehicle(() => vehicleSelect.open(vehicleEntry.id, selectVehicle));
+  vehicleSelect.open(null, selectVehicle);
+
+  const controlsScreen = new ControlsScreen(world.inputManager);
+  settings.onOpenControls(() => controlsScreen.open());
+
   // Create game engine (loop)
   const engine = new Engine();
 
@@ -51,6 +128,24 @@ async function main(): Promise<void> {
     (c) => c instanceof THREE.DirectionalLight,
   ) as THREE.DirectionalLight | undefined;
 
+  // Gas station service range
+  const SERVICE_RADIUS = 8; // m from the middle of the forecourt
+  const SERVICE_MAX_SPEED = 2; // km/h
+  const CHARGER_POWER = 150; // kW, forecourt rapid charger for electric cars
+  const TANK_FULL_PERCENT = 99.5;
+  const fuelPump = new FuelPump();
+  let stationStatus: GasStationStatus | null = null; // station the car is stopped at
+  let atGasStation = false; // ...and it's open
+  let canRefuel = false;
+  let canHitch = false;
+
+  // Prompts name the first key bound to the action
+  const keyName = (action: InputAction): string => {
+    const { bindings } = world.inputManager;
+    const binding = bindings.get(action)[0];
+    return binding ? bindings.describe(binding) : '(unbound)';
+  };
+
   // Road chunk update counter
   let chunkUpdateTimer = 0;
 
@@ -60,6 +155,12 @@ async function main(): Promise<void> {
 
   // Fixed timestep update (physics)
   engine.onFixedUpdate((dt) => {
+    // Hold the simulation while the vehicle picker or key bindings are up
+    if (vehicleSelect.isOpen() || controlsScreen.isOpen()) {
+      world.inputManager.endFrame();
+      return;
+    }
+
     const input = world.inputManager.getState();
 
     // Accumulate mouse deltas across physics steps for the render callback
@@ -69,6 +170,7 @@ async function main(): Promise<void> {
     // Reset vehicle
     if (input.reset) {
       vehicle.reset(roadManager.getStartPosition());
+      if (trailer?.isAttached()) hitchTrailer();
     }
 
     // Camera toggles
@@ -82,8 +184,55 @@ async function main(): Promise<void> {
       vehicle.toggleHighBeams();
     }
 
-    // Update vehicle
+    // Trip computer: page through, or zero the trip meter on show
+    if (input.tripCycle) {
+      hud.cycleTripPage();
+    }
+    const tripOnShow = hud.getTripMeterOnShow();
+    if (input.tripReset && tripOnShow !== null) {
+      vehicle.resetTrip(tripOnShow);
+    }
+
+    // Gas station services (must be nearly stopped on an open station's forecourt)
+    const station = vehicle.getSpeed() < SERVICE_MAX_SPEED
+      ? roadManager.findNearbyGasStation(vehicle.getPosition(), SERVICE_RADIUS)
+      : null;
+    stationStatus = station?.status ?? null;
+    atGasStation = stationStatus === 'open';
+    if (input.repair && atGasStation && vehicle.isDamaged()) {
+      vehicle.repair();
+    }
+    // Electric cars plug in whenever they stand on a forecourt
+    vehicle.setChargerPower(atGasStation ? CHARGER_POWER : 0);
+
+    // Refuel with the engine off; starting up or driving off hangs up the nozzle
+    canRefuel = atGasStation && vehicle.getPowertrainType() === 'combustion' && !vehicle.isEngineRunning();
+    if (!atGasStation) {
+      fuelPump.clear();
+    } else if (!canRefuel) {
+      fuelPump.stop();
+    } else if (input.refuel) {
+      if (fuelPump.isPumping()) {
+        fuelPump.stop();
+      } else {
+        fuelPump.start();
+      }
+    }
+    fuelPump.update(dt, (liters) => vehicle.refuel(liters));
+
+    // Couple / uncouple the trailer (coupling must be over the tow ball)
+    canHitch = trailer !== null && trailer.canAttach(vehicle);
+    if (input.trailerHitch && trailer) {
+      if (trailer.isAttached()) {
+        trailer.detach();
+      } else if (canHitch) {
+        trailer.attach(vehicle);
+      }
+    }
+
+    // Update vehicle and trailer
     vehicle.fixedUpdate(input, dt);
+    trailer?.fixedUpdate(dt);
 
     // Step physics
     world.stepPhysics(dt);
@@ -107,6 +256,7 @@ async function main(): Promise<void> {
   engine.onRender((dt, alpha) => {
     // Update vehicle visuals (interpolated)
     vehicle.updateVisuals(alpha);
+    trailer?.updateVisuals(alpha);
 
     // Update camera with interpolated position and mouse input
     const interpPos = vehicle.getPosition(alpha);
@@ -125,7 +275,41 @@ async function main(): Promise<void> {
     frameMouseDY = 0;
 
     // Update HUD
-    hud.update(vehicle.getState(), vehicle.getGearDisplay());
+    const state = vehicle.getState();
+    hud.update(state, vehicle.getGearDisplay());
+    const needsFuel = !state.electric && state.fuelPercent < TANK_FULL_PERCENT;
+    if (atGasStation && vehicle.isDamaged()) {
+      hud.setServicePrompt(`Press ${keyName('repair')} to repair`);
+    } else if (fuelPump.isPumping()) {
+      hud.setServicePrompt(`Refuelling - press ${keyName('refuel')} to stop`);
+    } else if (canRefuel && needsFuel) {
+      hud.setServicePrompt(`Press ${keyName('refuel')} to refuel`);
+    } else if (atGasStation && needsFuel) {
+      hud.setServicePrompt('Switch off the engine to refuel');
+    } else if (state.electric?.charging) {
+      hud.setServicePrompt(`Charging ${Math.round(state.electric.charge)}%`);
+    } else if (stationStatus === 'closed') {
+      hud.setServicePrompt('Station closed');
+    } else if (stationStatus === 'abandoned') {
+      hud.setServicePrompt('Abandoned - no fuel here');
+    } else if (canHitch) {
+      hud.setServicePrompt(`Press ${keyName('trailerHitch')} to hitch trailer`);
+    } else {
+      hud.setServicePrompt(null);
+    }
+    const pumpInUse = fuelPump.isPumping() || fuelPump.getDispensed() > 0;
+    hud.setPumpDisplay(atGasStation && pumpInUse ? {
+      pumping: fuelPump.isPumping(),
+      dispensed: fuelPump.getDispensed(),
+      tankPercent: state.fuelPercent,
+    } : null);
+    minimap.update(
+      interpPos,
+      new THREE.Vector3(0, 0, 1).applyQuaternion(interpQuat),
+      roadManager.findClosestT(interpPos),
+      roadManager.getLandmarks(),
+    );
+    minimap.setMilepost(roadManager.getMilepost(interpPos));
 
     // Update sun shadow to follow vehicle
     if (sunLight) {
@@ -150,4 +334,31 @@ async function main(): Promise<void> {
   console.log('Miles of Solitude - Engine started');
 }
 
-main().catch(console.error);
+/** Replace the game with a readable error screen when startup fails */
+function showStartupError(error: unknown): void {
+  console.error(error);
+  const overlay = document.getElementById('startup-error');
+  const title = document.getElementById('startup-error-title');
+  const list = document.getElementById('startup-error-list');
+  if (!overlay || !title || !list) return;
+
+  list.replaceChildren();
+  if (error instanceof ConfigValidationError) {
+    title.textContent = `Invalid ${error.source}`;
+    for (const issue of error.issues) {
+      const item = document.createElement('li');
+      const path = document.createElement('code');
+      path.textContent = issue.path;
+      item.append(path, ` ${issue.message}`);
+      list.appendChild(item);
+    }
+  } else {
+    title.textContent = 'Failed to start';
+    const item = document.createElement('li');
+    item.textContent = error instanceof Error ? error.message : String(error);
+    list.appendChild(item);
+  }
+  overlay.classList.add('visible');
+}
+
+main().catch(showStartupError);
@@ -0,0 +1,151 @@
+import type { InputAction } from '../../types';
+import type { InputManager } from '../../core/InputManager';
+import { INPUT_ACTIONS, parsePadBinding } from '../../core/InputBindings';
+
+const DEFAULT_NOTICE = 'Click a binding to change it, then press a key or gamepad button. Esc cancels, Delete removes.';
+const ACTIONS = Object.keys(INPUT_ACTIONS) as InputAction[];
+
+/**
+ * Key-binding editor opened from the config menu. Also keeps the on-screen
+ * controls hint in step with the bindings.
+ */
+export class ControlsScreen {
+  private readonly input: InputManager;
+  private readonly overlayEl: HTMLElement;
+  private readonly listEl: HTMLElement;
+  private readonly noticeEl: HTMLElement;
+  private readonly hintEl: HTMLElement;
+
+  constructor(input: InputManager) {
+    this.input = input;
+    this.overlayEl = document.getElementById('controls-screen')!;
+    this.listEl = document.getElementById('controls-list')!;
+    this.noticeEl = document.getElementById('controls-notice')!;
+    this.hintEl = document.getElementById('controls-hint')!;
+
+    document.getElementById('controls-close')!.addEventListener('click', () => this.close());
+    document.getElementById('controls-reset')!.addEventListener('click', () => {
+      this.input.cancelCapture();
+      this.input.bindings.resetToDefaults();
+      this.setNotice(DEFAULT_NOTICE, false);
+    });
+
+    this.input.bindings.onChange(() => {
+      this.renderHint();
+      if (this.isOpen()) this.renderList();
+    });
+    this.renderHint();
+  }
+
+  open(): void {
+    this.setNotice(DEFAULT_NOTICE, false);
+    this.renderList();
+    this.overlayEl.classList.add('open');
+  }
+
+  close(): void {
+    this.input.cancelCapture();
+    this.overlayEl.classList.remove('open');
+  }
+
+  isOpen(): boolean {
+    return this.overlayEl.classList.contains('open');
+  }
+
+  private renderList(): void {
+    const rows: HTMLElement[] = [];
+    for (const action of ACTIONS) {
+      const label = document.createElement('span');
+      label.className = 'controls-label';
+      label.textContent = INPUT_ACTIONS[action].label;
+
+      const chips = document.createElement('div');
+      chips.className = 'controls-bindings';
+      for (const binding of this.input.bindings.get(action)) {
+        chips.append(this.createChip(action, this.input.bindings.describe(binding), binding));
+      }
+      chips.append(this.createChip(action, '+'));
+      rows.push(label, chips);
+    }
+    this.listEl.replaceChildren(...rows);
+  }
+
+  /** A binding to replace, or the "+" chip that adds one when `binding` is omitted */
+  private createChip(action: InputAction, text: string, binding?: string): HTMLElement {
+    const chip = document.createElement('button');
+    chip.className = 'binding-chip';
+    chip.classList.toggle('add', binding === undefined);
+    chip.textContent = text;
+    chip.addEventListener('click', () => {
+      // Otherwise Space or Enter would click the focused chip again
+      chip.blur();
+      this.renderList();
+      this.listen(action, binding);
+    });
+    return chip;
+  }
+
+  private listen(action: InputAction, replace?: string): void {
+    const chips = this.listEl.querySelectorAll('.controls-bindings')[ACTIONS.indexOf(action)];
+    const target = replace === undefined
+      ? chips?.lastElementChild
+      : chips?.children[this.input.bindings.get(action).indexOf(replace)];
+    target?.classList.add('listening');
+    if (target) target.textContent = '…';
+    this.setNotice(`Press a key or gamepad button for ${INPUT_ACTIONS[action].label}`, false);
+
+    this.input.captureNext((binding) => {
+      if (binding === null) {
+        this.setNotice(DEFAULT_NOTICE, false);
+        this.renderList();
+        return;
+      }
+      if ((binding === 'Backspace' || binding === 'Delete') && replace !== undefined) {
+        this.input.bindings.unbind(action, replace);
+        this.setNotice(DEFAULT_NOTICE, false);
+        return;
+      }
+
+      const conflicts = this.input.bindings.bind(action, binding, replace);
+      if (conflicts.length > 0) {
+        const taken = conflicts.map((other) => INPUT_ACTIONS[other].label).join(', ');
+        this.setNotice(`${this.input.bindings.describe(binding)} was bound to ${taken} — removed there`, true);
+      } else {
+        this.setNotice(DEFAULT_NOTICE, false);
+      }
+    });
+  }
+
+  private setNotice(text: string, conflict: boolean): void {
+    this.noticeEl.textContent = text;
+    this.noticeEl.classList.toggle('conflict', conflict);
+  }
+
+  /** One line for the keyboard, one for the gamepad; neighbours sharing a hint are merged */
+  private renderHint(): void {
+    const groups: { hint: string; keys: string[]; pad: string[] }[] = [];
+    for (const action of ACTIONS) {
+      const { hint } = INPUT_ACTIONS[action];
+      let group = groups[groups.length - 1];
+      if (group?.hint !== hint) {
+        group = { hint, keys: [], pad: [] };
+        groups.push(group);
+      }
+      const bindings = this.input.bindings.get(action);
+      const key = bindings.find((b) => parsePadBinding(b) === null);
+      const button = bindings.find((b) => parsePadBinding(b) !== null);
+      if (key) group.keys.push(this.input.bindings.describe(key));
+      if (button) group.pad.push(this.input.bindings.describe(button));
+    }
+
+    const keyboard = groups.filter((g) => g.keys.length > 0).map((g) => `${g.keys.join('/')} - ${g.hint}`);
+    const gamepad = ['Left Stick - Steer', ...groups.filter((g) => g.pad.length > 0)
+      .map((g) => `${g.pad.join('/')} - ${g.hint}`)];
+
+    const keyLine = document.createElement('p');
+    keyLine.textContent = keyboard.join(' | ');
+    const padLine = document.createElement('p');
+    padLine.textContent = `Gamepad: ${gamepad.join(' | ')}`;
+    this.hintEl.replaceChildren(keyLine, padLine);
+  }
+}
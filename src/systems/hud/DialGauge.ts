@@ -0,0 +1,117 @@
+import { clamp } from '../../utils/math';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CENTER = 100; // viewBox is 200 x 200
+const RADIUS = 85;
+const CIRCUMFERENCE = 534; // 2 * PI * 85
+const ARC = 400; // visible arc portion (~270 degrees), starting at 12 o'clock
+const MAJOR_TICK = [70, 79]; // inner and outer radius
+const MINOR_TICK = [75, 79];
+const NUMERAL_RADIUS = 60;
+
+export interface DialScale {
+  max: number;
+  majorStep: number; // numbered ticks
+  minorStep: number;
+  labelDivisor?: number; // numerals show value / divisor, e.g. 1000 for a tach in x1000 rpm
+  redFrom?: number; // start of the red zone
+}
+
+/** Round step for about `divisions` divisions of `max`: 1, 2, 2.5 or 5 times a power of ten */
+export function niceStep(max: number, divisions: number): number {
+  const raw = max / divisions;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  for (const multiple of [1, 2, 2.5, 5]) {
+    if (multiple * magnitude >= raw) return multiple * magnitude;
+  }
+  return 10 * magnitude;
+}
+
+/**
+ * Round SVG gauge with ticks, numerals and a red zone drawn for its scale.
+ * The markup's svg is rotated -90deg in CSS, so angle 0 is 12 o'clock.
+ */
+export class DialGauge {
+  private readonly svg: SVGSVGElement;
+  private readonly fillEl: SVGCircleElement;
+  private readonly scaleEl: SVGGElement;
+  private max = 1;
+
+  constructor(gaugeEl: HTMLElement) {
+    this.svg = gaugeEl.querySelector('svg')!;
+    this.fillEl = gaugeEl.querySelector('.gauge-fill')!;
+    this.scaleEl = document.createElementNS(SVG_NS, 'g');
+    this.scaleEl.setAttribute('class', 'gauge-scale');
+    // Under the needle fill, over the background track
+    this.svg.insertBefore(this.scaleEl, this.fillEl);
+  }
+
+  setScale(scale: DialScale): void {
+    this.max = scale.max;
+    const parts: SVGElement[] = [];
+
+    if (scale.redFrom !== undefined && scale.redFrom < scale.max) {
+      const start = this.fraction(scale.redFrom) * ARC;
+      const zone = document.createElementNS(SVG_NS, 'circle');
+      zone.setAttribute('class', 'gauge-redzone');
+      zone.setAttribute('cx', String(CENTER));
+      zone.setAttribute('cy', String(CENTER));
+      zone.setAttribute('r', String(RADIUS));
+      zone.setAttribute('stroke-dasharray', `0 ${start} ${ARC - start} ${CIRCUMFERENCE}`);
+      parts.push(zone);
+    }
+
+    const minorCount = Math.round(scale.max / scale.minorStep);
+    for (let i = 0; i <= minorCount; i++) {
+      const value = i * scale.minorStep;
+      const major = Math.abs(value / scale.majorStep - Math.round(value / scale.majorStep)) < 1e-6;
+      parts.push(this.createTick(value, major));
+      if (major) parts.push(this.createNumeral(value, scale.labelDivisor ?? 1));
+    }
+
+    this.scaleEl.replaceChildren(...parts);
+  }
+
+  setColor(color: string): void {
+    this.fillEl.style.stroke = color;
+  }
+
+  setValue(value: number): void {
+    const offset = CIRCUMFERENCE - this.fraction(value) * ARC;
+    this.fillEl.style.strokeDashoffset = offset.toString();
+  }
+
+  private fraction(value: number): number {
+    return clamp(value / this.max, 0, 1);
+  }
+
+  private point(value: number, radius: number): [number, number] {
+    const angle = this.fraction(value) * (ARC / CIRCUMFERENCE) * 2 * Math.PI;
+    return [CENTER + radius * Math.cos(angle), CENTER + radius * Math.sin(angle)];
+  }
+
+  private createTick(value: number, major: boolean): SVGElement {
+    const [inner, outer] = major ? MAJOR_TICK : MINOR_TICK;
+    const [x1, y1] = this.point(value, inner);
+    const [x2, y2] = this.point(value, outer);
+    const tick = document.createElementNS(SVG_NS, 'line');
+    tick.setAttribute('class', major ? 'gauge-tick major' : 'gauge-tick');
+    tick.setAttribute('x1', x1.toFixed(1));
+    tick.setAttribute('y1', y1.toFixed(1));
+    tick.setAttribute('x2', x2.toFixed(1));
+    tick.setAttribute('y2', y2.toFixed(1));
+    return tick;
+  }
+
+  private createNumeral(value: number, divisor: number): SVGElement {
+    const [x, y] = this.point(value, NUMERAL_RADIUS);
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('class', 'gauge-numeral');
+    text.setAttribute('x', x.toFixed(1));
+    text.setAttribute('y', y.toFixed(1));
+    // Undo the svg's rotation so numerals stand upright
+    text.setAttribute('transform', `rotate(90 ${x.toFixed(1)} ${y.toFixed(1)})`);
+    text.textContent = String(Math.round((value / divisor) * 10) / 10);
+    return text;
+  }
+}
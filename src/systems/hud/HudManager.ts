@@ -1,50 +1,178 @@
-import type { VehicleState } from '../../types';
+import type { VehicleState, ElectricState, TripState, PumpState, UnitSystem } from '../../types';
+import type { VehicleEntry } from '../vehicle/VehicleCatalog';
+import { WarningLamps } from './WarningLamps';
+import { TurnIndicators } from './TurnIndicators';
+import { DialGauge, niceStep } from './DialGauge';
 import { remap, clamp } from '../../utils/math';
+import {
+  defaultUnitSystem, speedFromKmh, speedUnit, distanceFromKm, distanceUnit, volumeFromLiters, volumeUnit,
+  formatEconomy,
+} from '../../utils/units';
+
+const TRIP_METERS = 2;
+const SPEEDO_HEADROOM = 1.1; // speedo reads past the car's top speed
+const RPM_WARN_BAND = 1000; // rpm below the redline where the tach turns orange
 
 export class HudManager {
+  private hudEl: HTMLElement;
   private rpmValueEl: HTMLElement;
   private speedValueEl: HTMLElement;
   private gearValueEl: HTMLElement;
   private fuelBarEl: HTMLElement;
   private fuelValueEl: HTMLElement;
-  private rpmFillEl: SVGCircleElement;
-  private speedFillEl: SVGCircleElement;
+  private tempBarEl: HTMLElement;
+  private tempValueEl: HTMLElement;
+  private speedUnitEl: HTMLElement;
+  private readonly tachometer: DialGauge;
+  private readonly speedometer: DialGauge;
+  private readonly powerMeter: DialGauge;
+  private powerValueEl: HTMLElement;
+  private chargeBarEl: HTMLElement;
+  private chargeValueEl: HTMLElement;
+  private servicePromptEl: HTMLElement;
+  private pumpDisplayEl: HTMLElement;
+  private pumpBarEl: HTMLElement;
+  private pumpValueEl: HTMLElement;
+  private boostGaugeEl: HTMLElement;
+  private boostBarEl: HTMLElement;
+  private boostValueEl: HTMLElement;
+  private cruiseEl: HTMLElement;
+  private readonly lamps: WarningLamps;
+  private readonly turnIndicators: TurnIndicators;
+  private tripTitleEl: HTMLElement;
+  private tripLabelEls: HTMLElement[];
+  private tripValueEls: HTMLElement[];
+  private tripOdometerEl: HTMLElement;
+  private tripPage = 0; // trip meters A and B, then economy
+  private units: UnitSystem = defaultUnitSystem();
+  private redlineRpm = Infinity;
+  private topSpeedKmh = 250;
+
+  // Boost gauge floor (bar, full manifold vacuum)
+  private readonly boostGaugeVacuum = -1;
 
-  // SVG gauge arc constants
-  private readonly circumference = 534; // 2 * PI * 85
-  private readonly gaugeArc = 400; // visible arc portion (~270 degrees)
+  // Coolant gauge scale (°C)
+  private readonly tempGaugeMin = 40;
+  private readonly tempGaugeMax = 130;
+  private readonly tempColdBelow = 70;
 
   constructor() {
+    this.hudEl = document.getElementById('hud')!;
     this.rpmValueEl = document.getElementById('rpm-value')!;
     this.speedValueEl = document.getElementById('speed-value')!;
     this.gearValueEl = document.getElementById('gear-value')!;
     this.fuelBarEl = document.getElementById('fuel-bar')!;
     this.fuelValueEl = document.getElementById('fuel-value')!;
-    this.rpmFillEl = document.querySelector('.rpm-fill')! as SVGCircleElement;
-    this.speedFillEl = document.querySelector('.speed-fill')! as SVGCircleElement;
+    this.tempBarEl = document.getElementById('temp-bar')!;
+    this.tempValueEl = document.getElementById('temp-value')!;
+    this.servicePromptEl = document.getElementById('service-prompt')!;
+    this.pumpDisplayEl = document.getElementById('pump-display')!;
+    this.pumpBarEl = document.getElementById('pump-bar')!;
+    this.pumpValueEl = document.getElementById('pump-value')!;
+    this.boostGaugeEl = document.getElementById('boost-gauge')!;
+    this.boostBarEl = document.getElementById('boost-bar')!;
+    this.boostValueEl = document.getElementById('boost-value')!;
+    this.cruiseEl = document.getElementById('cruise-indicator')!;
+    this.speedUnitEl = document.getElementById('speed-unit')!;
+    this.tachometer = new DialGauge(document.getElementById('tachometer')!);
+    this.speedometer = new DialGauge(document.getElementById('speedometer')!);
+    this.powerMeter = new DialGauge(document.getElementById('power-meter')!);
+    this.powerValueEl = document.getElementById('power-value')!;
+    this.chargeBarEl = document.getElementById('charge-bar')!;
+    this.chargeValueEl = document.getElementById('charge-value')!;
+    this.lamps = new WarningLamps(document.getElementById('warning-lamps')!);
+    this.turnIndicators = new TurnIndicators();
+    this.tripTitleEl = document.getElementById('trip-title')!;
+    this.tripLabelEls = Array.from(document.querySelectorAll<HTMLElement>('#trip-rows dt'));
+    this.tripValueEls = Array.from(document.querySelectorAll<HTMLElement>('#trip-rows dd'));
+    this.tripOdometerEl = document.getElementById('trip-odometer')!;
+  }
+
+  /** Scale the dials for a newly chosen vehicle */
+  setVehicle(entry: VehicleEntry): void {
+    const { config, specs } = entry;
+    if (config.powertrain === 'electric') {
+      const maxPower = config.motor.maxPower;
+      const step = niceStep(maxPower, 5);
+      this.powerMeter.setScale({ max: Math.ceil(maxPower / step) * step, majorStep: step, minorStep: step / 2 });
+      this.redlineRpm = Infinity;
+    } else {
+      const { maxRpm, redlineRpm } = config.engine;
+      this.tachometer.setScale({
+        max: Math.ceil(maxRpm / 1000) * 1000,
+        majorStep: 1000,
+        minorStep: 500,
+        labelDivisor: 1000,
+        redFrom: redlineRpm,
+      });
+      this.redlineRpm = redlineRpm;
+    }
+    this.topSpeedKmh = specs.topSpeedKmh;
+    this.updateSpeedScale();
+  }
+
+  getUnits(): UnitSystem {
+    return this.units;
+  }
+
+  setUnits(units: UnitSystem): void {
+    this.units = units;
+    this.updateSpeedScale();
+  }
+
+  /** Speedo in the current units, reading a little past the car's top speed */
+  private updateSpeedScale(): void {
+    const top = speedFromKmh(this.topSpeedKmh, this.units) * SPEEDO_HEADROOM;
+    const step = niceStep(top, 8);
+    this.speedometer.setScale({ max: Math.ceil(top / step) * step, majorStep: step, minorStep: step / 2 });
+    this.speedUnitEl.textContent = speedUnit(this.units).toUpperCase();
+  }
+
+  /** Step the trip computer to its next page */
+  cycleTripPage(): void {
+    this.tripPage = (this.tripPage + 1) % (TRIP_METERS + 1);
+  }
+
+  /** The trip meter on show (0 = A, 1 = B), or null on the economy page */
+  getTripMeterOnShow(): number | null {
+    return this.tripPage < TRIP_METERS ? this.tripPage : null;
+  }
+
+  /** Show a contextual action prompt under the gear indicator, or hide it with null */
+  setServicePrompt(text: string | null): void {
+    this.servicePromptEl.textContent = text ?? '';
+    this.servicePromptEl.classList.toggle('visible', text !== null);
+  }
+
+  /** Show the fuel pump readout while refuelling, or hide it with null */
+  setPumpDisplay(pump: PumpState | null): void {
+    this.pumpDisplayEl.classList.toggle('visible', pump !== null);
+    if (!pump) return;
+    this.pumpDisplayEl.dataset.pumping = String(pump.pumping);
+    this.pumpBarEl.style.width = `${clamp(pump.tankPercent, 0, 100)}%`;
+    this.pumpValueEl.textContent = `${volumeFromLiters(pump.dispensed, this.units).toFixed(1)} ${volumeUnit(this.units)}`;
   }
 
   update(state: VehicleState, gearDisplay: string): void {
-    // RPM
+    // Electric vehicles show power and charge in place of RPM, coolant and fuel
+    this.hudEl.dataset.powertrain = state.electric ? 'electric' : 'combustion';
+    if (state.electric) this.updateElectric(state.electric);
+
+    // RPM, shifting colour approaching and past the redline
     this.rpmValueEl.textContent = state.rpm.toString();
-    const rpmPercent = clamp(state.rpm / 7000, 0, 1);
-    const rpmOffset = this.circumference - (rpmPercent * this.gaugeArc);
-    this.rpmFillEl.style.strokeDashoffset = rpmOffset.toString();
-
-    // Color shift for high RPM
-    if (state.rpm > 6000) {
-      this.rpmFillEl.style.stroke = '#ff2222';
-    } else if (state.rpm > 5000) {
-      this.rpmFillEl.style.stroke = '#ff6644';
+    this.tachometer.setValue(state.rpm);
+    if (state.rpm > this.redlineRpm) {
+      this.tachometer.setColor('#ff2222');
+    } else if (state.rpm > this.redlineRpm - RPM_WARN_BAND) {
+      this.tachometer.setColor('#ff6644');
     } else {
-      this.rpmFillEl.style.stroke = '#ff4444';
+      this.tachometer.setColor('#ff4444');
     }
 
     // Speed
-    this.speedValueEl.textContent = state.speed.toString();
-    const speedPercent = clamp(state.speed / 250, 0, 1);
-    const speedOffset = this.circumference - (speedPercent * this.gaugeArc);
-    this.speedFillEl.style.strokeDashoffset = speedOffset.toString();
+    const speed = speedFromKmh(state.speed, this.units);
+    this.speedValueEl.textContent = Math.round(speed).toString();
+    this.speedometer.setValue(speed);
 
     // Gear
     this.gearValueEl.textContent = gearDisplay;
@@ -54,18 +182,119 @@ export class HudManager {
       this.gearValueEl.style.opacity = '1';
     }
 
+    // Warning and status lamps
+    this.lamps.update(state);
+    this.turnIndicators.update(state.turnSignals);
+
+    // Cruise control / limiter
+    const { cruise } = state;
+    this.cruiseEl.dataset.mode = cruise.mode;
+    this.cruiseEl.dataset.engaged = String(cruise.engaged);
+    if (cruise.mode === 'off') {
+      this.cruiseEl.textContent = '';
+    } else {
+      const label = cruise.mode === 'cruise' ? 'CRUISE' : 'LIMIT';
+      this.cruiseEl.textContent = `${label} ${Math.round(speedFromKmh(cruise.setSpeed, this.units))}`;
+    }
+
+    // Boost: bar spans full vacuum to the wastegate limit, hidden on NA engines
+    this.boostGaugeEl.classList.toggle('visible', state.boost !== null);
+    if (state.boost) {
+      const { pressure, max } = state.boost;
+      this.boostBarEl.style.width = `${remap(pressure, this.boostGaugeVacuum, max, 0, 100)}%`;
+      this.boostBarEl.style.background = pressure > 0 ? '#44ccff' : 'rgba(255, 255, 255, 0.35)';
+      this.boostValueEl.textContent = `${pressure >= 0 ? '+' : ''}${pressure.toFixed(1)} bar`;
+    }
+
+    // Coolant temperature
+    const tempPercent = remap(state.coolantTemp, this.tempGaugeMin, this.tempGaugeMax, 0, 100);
+    this.tempBarEl.style.width = `${tempPercent}%`;
+    this.tempValueEl.textContent = this.units === 'imperial'
+      ? `${Math.round(state.coolantTemp * 1.8 + 32)}°F`
+      : `${Math.round(state.coolantTemp)}°C`;
+    if (state.overheating) {
+      this.tempBarEl.style.background = '#ff2222';
+    } else if (state.coolantTemp < this.tempColdBelow) {
+      this.tempBarEl.style.background = '#44aaff';
+    } else {
+      this.tempBarEl.style.background = '#44ff44';
+    }
+
     // Fuel
-    const fuelPercent = clamp(state.fuelPercent, 0, 100);
-    this.fuelBarEl.style.width = `${fuelPercent}%`;
-    this.fuelValueEl.textContent = `${Math.round(fuelPercent)}%`;
-
-    // Low fuel warning
-    if (fuelPercent < 15) {
-      this.fuelBarEl.style.background = '#ff4444';
-    } else if (fuelPercent < 30) {
-      this.fuelBarEl.style.background = 'linear-gradient(90deg, #ff4444, #ffaa00)';
+    this.updateLevelBar(this.fuelBarEl, this.fuelValueEl, state.fuelPercent);
+
+    this.updateTrip(state.trip);
+  }
+
+  /** Trip computer: one trip meter or the economy page, with the odometer underneath */
+  private updateTrip(trip: TripState): void {
+    const { units } = this;
+    const economy = (value: number | null) => formatEconomy(value, trip.consumptionUnit, units);
+    const distance = (km: number, digits: number) => (
+      `${distanceFromKm(km, units).toFixed(digits)} ${distanceUnit(units)}`
+    );
+    let title: string;
+    let rows: [string, string][];
+
+    const meter = trip.trips[this.tripPage];
+    if (meter) {
+      const hours = Math.floor(meter.time / 3600);
+      const minutes = Math.floor((meter.time % 3600) / 60);
+      title = `TRIP ${String.fromCharCode(65 + this.tripPage)}`;
+      rows = [
+        ['DIST', distance(meter.distance, 1)],
+        ['TIME', `${hours}:${minutes.toString().padStart(2, '0')}`],
+        ['AVG SPD', `${Math.round(speedFromKmh(meter.averageSpeed, units))} ${speedUnit(units)}`],
+        ['AVG', economy(meter.averageConsumption)],
+      ];
+    } else {
+      title = 'ECONOMY';
+      rows = [
+        ['NOW', economy(trip.instantConsumption)],
+        ['RANGE', trip.range === null ? `--- ${distanceUnit(units)}` : distance(trip.range, 0)],
+        ['LEFT', trip.consumptionUnit === 'L'
+          ? `${volumeFromLiters(trip.remaining, units).toFixed(1)} ${volumeUnit(units)}`
+          : `${trip.remaining.toFixed(1)} kWh`],
+      ];
+    }
+
+    this.tripTitleEl.textContent = title;
+    this.tripLabelEls.forEach((labelEl, i) => {
+      const valueEl = this.tripValueEls[i];
+      const row = rows[i];
+      labelEl.classList.toggle('hidden', !row);
+      valueEl.classList.toggle('hidden', !row);
+      if (!row) return;
+      labelEl.textContent = row[0];
+      valueEl.textContent = row[1];
+    });
+    const odometer = Math.floor(distanceFromKm(trip.odometer, units));
+    this.tripOdometerEl.textContent = `${odometer.toLocaleString()} ${distanceUnit(units)}`;
+  }
+
+  /** Power meter (drive one way, regen in green on the same kW scale) and battery charge */
+  private updateElectric(electric: ElectricState): void {
+    const { power } = electric;
+    this.powerMeter.setValue(Math.abs(power));
+    this.powerMeter.setColor(power < 0 ? '#44ff44' : '#ffcc44');
+    this.powerValueEl.textContent = Math.round(power).toString();
+
+    this.updateLevelBar(this.chargeBarEl, this.chargeValueEl, electric.charge);
+    if (electric.charging) this.chargeBarEl.style.background = '#44ccff';
+  }
+
+  /** Fuel or charge bar, going amber then red as it runs low */
+  private updateLevelBar(barEl: HTMLElement, valueEl: HTMLElement, percent: number): void {
+    const level = clamp(percent, 0, 100);
+    barEl.style.width = `${level}%`;
+    valueEl.textContent = `${Math.round(level)}%`;
+
+    if (level < 15) {
+      barEl.style.background = '#ff4444';
+    } else if (level < 30) {
+      barEl.style.background = 'linear-gradient(90deg, #ff4444, #ffaa00)';
     } else {
-      this.fuelBarEl.style.background = 'linear-gradient(90deg, #ff4444, #ffaa00, #44ff44)';
+      barEl.style.background = 'linear-gradient(90deg, #ff4444, #ffaa00, #44ff44)';
     }
   }
 }
@@ -0,0 +1,159 @@
+import type * as THREE from 'three';
+import type { MilepostState, RoadLandmarks, UnitSystem } from '../../types';
+import type { RoadSpline } from '../road/RoadSpline';
+import { clamp } from '../../utils/math';
+import { defaultUnitSystem, distanceFromKm, distanceUnit } from '../../utils/units';
+
+const MAP_RANGE = 400; // m from the vehicle to the edge of the map
+const ROAD_SAMPLE_SPACING = 10; // m between precomputed road points
+const MIN_ROAD_WIDTH = 4; // px, so the road stays visible zoomed out
+
+/**
+ * Heading-up map of the road around the vehicle with roadside buildings
+ * marked, plus a strip showing the mile marker reading and progress along
+ * the route. Drawn to a 2D canvas from road points sampled once up front.
+ */
+export class Minimap {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly roadPoints: THREE.Vector3[];
+  private readonly roadWidth: number;
+  private readonly routeLength: number; // m
+  private progressBarEl: HTMLElement;
+  private travelledEl: HTMLElement;
+  private remainingEl: HTMLElement;
+  private milepostEl: HTMLElement;
+  private units: UnitSystem = defaultUnitSystem();
+
+  constructor(spline: RoadSpline) {
+    this.canvas = document.getElementById('minimap') as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    this.progressBarEl = document.getElementById('route-progress-bar')!;
+    this.travelledEl = document.getElementById('route-travelled')!;
+    this.remainingEl = document.getElementById('route-remaining')!;
+    this.milepostEl = document.getElementById('milepost')!;
+
+    // Backing store at device resolution so lines stay crisp
+    const dpr = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(this.canvas.clientWidth * dpr);
+    this.canvas.height = Math.round(this.canvas.clientHeight * dpr);
+
+    this.routeLength = spline.totalLength;
+    const segments = Math.max(1, Math.ceil(this.routeLength / ROAD_SAMPLE_SPACING));
+    this.roadPoints = spline.getPointsInRange(0, 1, segments);
+    this.roadWidth = spline.getWidthAt(0);
+  }
+
+  setUnits(units: UnitSystem): void {
+    this.units = units;
+  }
+
+  /**
+   * Redraw around `position`, facing `forward`. `routeT` is the vehicle's
+   * place along the road (0..1), from RoadManager.findClosestT.
+   */
+  update(position: THREE.Vector3, forward: THREE.Vector3, routeT: number, landmarks: RoadLandmarks): void {
+    this.drawMap(position, forward, routeT, landmarks);
+    this.updateProgress(routeT);
+  }
+
+  private drawMap(position: THREE.Vector3, forward: THREE.Vector3, routeT: number, landmarks: RoadLandmarks): void {
+    const { ctx, canvas } = this;
+    const size = canvas.width;
+    const center = size / 2;
+    const scale = center / MAP_RANGE; // px per metre
+
+    // Flat heading; right of a +Z-forward, Y-up vehicle is (-z, 0, x)
+    const heading = Math.atan2(forward.x, forward.z);
+    const fx = Math.sin(heading);
+    const fz = Math.cos(heading);
+    const toMap = (point: THREE.Vector3): [number, number] => {
+      const dx = point.x - position.x;
+      const dz = point.z - position.z;
+      return [center + (dz * fx - dx * fz) * scale, center - (dx * fx + dz * fz) * scale];
+    };
+
+    ctx.clearRect(0, 0, size, size);
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(center, center, center, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.fillStyle = 'rgba(40, 30, 20, 0.6)';
+    ctx.fill();
+
+    // Road: only the stretch that can reach the edge of the map
+    const current = Math.round(routeT * (this.roadPoints.length - 1));
+    const span = Math.ceil((MAP_RANGE * 1.5) / ROAD_SAMPLE_SPACING);
+    const first = Math.max(0, current - span);
+    const last = Math.min(this.roadPoints.length - 1, current + span);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.max(MIN_ROAD_WIDTH, this.roadWidth * scale);
+    this.strokeRoad(first, current, toMap, 'rgba(200, 200, 200, 0.5)');
+    this.strokeRoad(current, last, toMap, '#ddd');
+
+    // Buildings as squares, gas stations as dots: amber when open, hollow when closed
+    const markerSize = size * 0.035;
+    ctx.fillStyle = '#8a7a6a';
+    for (const building of landmarks.buildings) {
+      const [x, y] = toMap(building);
+      ctx.fillRect(x - markerSize / 2, y - markerSize / 2, markerSize, markerSize);
+    }
+    ctx.fillStyle = '#ffaa00';
+    ctx.strokeStyle = '#8a7a6a';
+    ctx.lineWidth = markerSize * 0.3;
+    for (const station of landmarks.gasStations) {
+      const [x, y] = toMap(station.position);
+      ctx.beginPath();
+      ctx.arc(x, y, markerSize * 0.7, 0, Math.PI * 2);
+      if (station.status === 'open') ctx.fill();
+      else ctx.stroke();
+    }
+
+    // Vehicle arrow, always pointing up
+    const arrow = size * 0.05;
+    ctx.fillStyle = '#44ccff';
+    ctx.beginPath();
+    ctx.moveTo(center, center - arrow);
+    ctx.lineTo(center + arrow * 0.7, center + arrow * 0.7);
+    ctx.lineTo(center, center + arrow * 0.3);
+    ctx.lineTo(center - arrow * 0.7, center + arrow * 0.7);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.restore();
+  }
+
+  private strokeRoad(
+    first: number, last: number, toMap: (point: THREE.Vector3) => [number, number], color: string,
+  ): void {
+    if (last <= first) return;
+    const { ctx } = this;
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    for (let i = first; i <= last; i++) {
+      const [x, y] = toMap(this.roadPoints[i]);
+      if (i === first) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  }
+
+  /** Current reading by the roadside markers, in the markers' own unit */
+  setMilepost(milepost: MilepostState): void {
+    const label = milepost.unit === 'mile' ? 'MILE' : 'KM';
+    // Round down, so the reading never runs ahead of the next post
+    this.milepostEl.textContent = `${label} ${(Math.floor(milepost.distance * 10) / 10).toFixed(1)}`;
+  }
+
+  /** Distance travelled and remaining along the route */
+  private updateProgress(routeT: number): void {
+    const t = clamp(routeT, 0, 1);
+    const travelledKm = (t * this.routeLength) / 1000;
+    const remainingKm = ((1 - t) * this.routeLength) / 1000;
+    const format = (km: number) => `${distanceFromKm(km, this.units).toFixed(1)} ${distanceUnit(this.units)}`;
+    this.progressBarEl.style.width = `${t * 100}%`;
+    this.travelledEl.textContent = format(travelledKm);
+    this.remainingEl.textContent = `${format(remainingKm)} to go`;
+  }
+}
@@ -1,16 +1,23 @@
 import * as THREE from 'three';
 import type { VehicleController } from '../vehicle/VehicleController';
+import type { DriverAid, UnitSystem } from '../../types';
 
 export class SettingsManager {
   private nightMode = false;
   private scene: THREE.Scene;
   private vehicle: VehicleController;
+  private changeVehicleCallback: (() => void) | null = null;
+  private openControlsCallback: (() => void) | null = null;
+  private trailerToggleCallback: ((enabled: boolean) => void) | null = null;
+  private unitsChangeCallback: ((units: UnitSystem) => void) | null = null;
 
   // Store original day values
   private readonly dayBg = new THREE.Color(0x87ceeb);
   private readonly nightBg = new THREE.Color(0x0a0a1a);
   private readonly dayFog = new THREE.Color(0x87ceeb);
   private readonly nightFog = new THREE.Color(0x0a0a1a);
+  private readonly dayAmbientTemp = 38; // °C
+  private readonly nightAmbientTemp = 18; // °C
 
   constructor(scene: THREE.Scene, vehicle: VehicleController) {
     this.scene = scene;
@@ -22,6 +29,7 @@ export class SettingsManager {
     const toggleBtn = document.getElementById('config-toggle');
     const panel = document.getElementById('config-panel');
     const nightToggle = document.getElementById('toggle-night') as HTMLInputElement | null;
+    const autoToggle = document.getElementById('toggle-automatic') as HTMLInputElement | null;
 
     if (toggleBtn && panel) {
       toggleBtn.addEventListener('click', (e) => {
@@ -42,6 +50,118 @@ export class SettingsManager {
         this.setNightMode(nightToggle.checked);
       });
     }
+
+    if (autoToggle) {
+      autoToggle.addEventListener('change', () => {
+        this.vehicle.setTransmissionMode(autoToggle.checked ? 'automatic' : 'manual');
+      });
+    }
+
+    for (const aid of ['abs', 'traction', 'stability'] as DriverAid[]) {
+      const aidToggle = document.getElementById(`toggle-${aid}`) as HTMLInputElement | null;
+      if (!aidToggle) continue;
+      aidToggle.addEventListener('change', () => {
+        this.vehicle.setDriverAid(aid, aidToggle.checked);
+      });
+    }
+
+    const imperialToggle = document.getElementById('toggle-imperial') as HTMLInputElement | null;
+    if (imperialToggle) {
+      imperialToggle.addEventListener('change', () => {
+        this.unitsChangeCallback?.(imperialToggle.checked ? 'imperial' : 'metric');
+      });
+    }
+
+    const trailerToggle = document.getElementById('toggle-trailer') as HTMLInputElement | null;
+    if (trailerToggle) {
+      trailerToggle.addEventListener('change', () => {
+        this.trailerToggleCallback?.(trailerToggle.checked);
+      });
+    }
+
+    const changeVehicleBtn = document.getElementById('change-vehicle');
+    if (changeVehicleBtn && panel) {
+      changeVehicleBtn.addEventListener('click', () => {
+        panel.classList.remove('open');
+        this.changeVehicleCallback?.();
+      });
+    }
+
+    const controlsBtn = document.getElementById('open-controls');
+    if (controlsBtn && panel) {
+      controlsBtn.addEventListener('click', () => {
+        panel.classList.remove('open');
+        this.openControlsCallback?.();
+      });
+    }
+
+    this.syncVehicleControls();
+  }
+
+  /** Match the vehicle-specific toggles to the current vehicle */
+  private syncVehicleControls(): void {
+    const autoToggle = document.getElementById('toggle-automatic') as HTMLInputElement | null;
+    if (autoToggle) {
+      autoToggle.checked = this.vehicle.getTransmissionMode() === 'automatic';
+      // Single-speed electric drive has no gearbox to choose
+      const row = autoToggle.closest('.config-row') as HTMLElement | null;
+      if (row) row.style.display = this.vehicle.getPowertrainType() === 'electric' ? 'none' : '';
+    }
+
+    for (const aid of ['abs', 'traction', 'stability'] as DriverAid[]) {
+      const aidToggle = document.getElementById(`toggle-${aid}`) as HTMLInputElement | null;
+      if (!aidToggle) continue;
+      // Hide aids this vehicle isn't fitted with
+      const row = aidToggle.closest('.config-row') as HTMLElement | null;
+      if (row) row.style.display = this.vehicle.hasDriverAid(aid) ? '' : 'none';
+      // Carry the driver's aid preferences over to the new car
+      this.vehicle.setDriverAid(aid, aidToggle.checked);
+    }
+
+    // Only cars with a tow ball can pull the trailer
+    const trailerToggle = document.getElementById('toggle-trailer') as HTMLInputElement | null;
+    const trailerRow = trailerToggle?.closest('.config-row') as HTMLElement | null;
+    if (trailerRow) trailerRow.style.display = this.vehicle.getHitchPoint() ? '' : 'none';
+  }
+
+  /** Point the settings at a freshly built vehicle (after a car swap) */
+  setVehicle(vehicle: VehicleController): void {
+    this.vehicle = vehicle;
+    this.syncVehicleControls();
+    this.vehicle.setHeadlights(this.nightMode);
+    this.vehicle.setAmbientTemperature(this.nightMode ? this.nightAmbientTemp : this.dayAmbientTemp);
+  }
+
+  /** Called when the trailer toggle changes */
+  onTrailerToggle(callback: (enabled: boolean) => void): void {
+    this.trailerToggleCallback = callback;
+  }
+
+  /** Reflect a trailer removed by the game (e.g. the new car has no hitch) */
+  setTrailerEnabled(enabled: boolean): void {
+    const trailerToggle = document.getElementById('toggle-trailer') as HTMLInputElement | null;
+    if (trailerToggle) trailerToggle.checked = enabled;
+  }
+
+  /** Called when the units toggle changes */
+  onUnitsChange(callback: (units: UnitSystem) => void): void {
+    this.unitsChangeCallback = callback;
+  }
+
+  /** Show the unit system the game started in */
+  setUnits(units: UnitSystem): void {
+    const imperialToggle = document.getElementById('toggle-imperial') as HTMLInputElement | null;
+    if (imperialToggle) imperialToggle.checked = units === 'imperial';
+  }
+
+  /** Called when the "Change Vehicle" button in the config panel is pressed */
+  onChangeVehicle(callback: () => void): void {
+    this.changeVehicleCallback = callback;
+  }
+
+  /** Called when the "Controls" button in the config panel is pressed */
+  onOpenControls(callback: () => void): void {
+    this.openControlsCallback = callback;
   }
 
   setNightMode(enabled: boolean): void {
@@ -74,6 +194,9 @@ export class SettingsManager {
     // Toggle vehicle headlights
     this.vehicle.setHeadlights(enabled);
 
+    // Desert nights are cool enough to matter for the radiator
+    this.vehicle.setAmbientTemperature(enabled ? this.nightAmbientTemp : this.dayAmbientTemp);
+
     // Toggle pole lights
     this.refreshPoleLights();
   }
@@ -0,0 +1,50 @@
+import type { TurnSignalState } from '../../types';
+
+const TICK_VOLUME = 0.08;
+const TICK_LENGTH = 0.025; // s
+const TICK_FREQUENCY = 2400; // Hz as the relay closes
+const TOCK_FREQUENCY = 1700; // Hz as it opens
+
+/**
+ * Dashboard turn signal arrows and the flasher relay's tick-tock. The click
+ * is a short synthesized blip, so there are no audio assets to load; the
+ * audio context is only created once the signals are first used.
+ */
+export class TurnIndicators {
+  private readonly leftEl: HTMLElement;
+  private readonly rightEl: HTMLElement;
+  private audio: AudioContext | null = null;
+  private lit = false;
+
+  constructor() {
+    this.leftEl = document.getElementById('turn-left')!;
+    this.rightEl = document.getElementById('turn-right')!;
+  }
+
+  update(signals: TurnSignalState): void {
+    this.leftEl.dataset.lit = String(signals.left);
+    this.rightEl.dataset.lit = String(signals.right);
+
+    // The relay clicks as it closes and again as it opens
+    const lit = signals.left || signals.right;
+    if (lit !== this.lit) this.tick(lit);
+    this.lit = lit;
+  }
+
+  private tick(closing: boolean): void {
+    this.audio ??= new AudioContext();
+    const ctx = this.audio;
+    if (ctx.state === 'suspended') void ctx.resume();
+
+    const start = ctx.currentTime;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.value = closing ? TICK_FREQUENCY : TOCK_FREQUENCY;
+    gain.gain.setValueAtTime(TICK_VOLUME, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + TICK_LENGTH);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + TICK_LENGTH);
+  }
+}
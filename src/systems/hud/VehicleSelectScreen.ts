@@ -0,0 +1,100 @@
+import type { UnitSystem } from '../../types';
+import type { VehicleCatalog, VehicleEntry } from '../vehicle/VehicleCatalog';
+import { massFromKg, massUnit, volumeFromLiters, volumeUnit } from '../../utils/units';
+
+const KW_TO_HP = 1.341;
+
+export type VehicleSelectCallback = (entry: VehicleEntry) => void;
+
+/**
+ * Full-screen vehicle picker shown before the first drive and from the
+ * config menu. Cards are rebuilt on every open so the current car is marked.
+ */
+export class VehicleSelectScreen {
+  private readonly catalog: VehicleCatalog;
+  private readonly overlayEl: HTMLElement;
+  private readonly listEl: HTMLElement;
+  private readonly closeBtn: HTMLButtonElement;
+  private onSelect: VehicleSelectCallback | null = null;
+  private units: UnitSystem = 'metric';
+
+  constructor(catalog: VehicleCatalog) {
+    this.catalog = catalog;
+    this.overlayEl = document.getElementById('vehicle-select')!;
+    this.listEl = document.getElementById('vehicle-list')!;
+    this.closeBtn = document.getElementById('vehicle-select-close') as HTMLButtonElement;
+    this.closeBtn.addEventListener('click', () => this.close());
+  }
+
+  /** Show the picker; `currentId` is null before the first vehicle is chosen (no way back) */
+  open(currentId: string | null, onSelect: VehicleSelectCallback): void {
+    this.onSelect = onSelect;
+    this.listEl.replaceChildren(
+      ...this.catalog.list().map((entry) => this.createCard(entry, entry.id === currentId)),
+    );
+    this.closeBtn.style.display = currentId === null ? 'none' : '';
+    this.overlayEl.classList.add('open');
+  }
+
+  setUnits(units: UnitSystem): void {
+    this.units = units;
+  }
+
+  close(): void {
+    this.overlayEl.classList.remove('open');
+    this.onSelect = null;
+  }
+
+  isOpen(): boolean {
+    return this.overlayEl.classList.contains('open');
+  }
+
+  private createCard(entry: VehicleEntry, current: boolean): HTMLElement {
+    const { config, specs } = entry;
+    const { units } = this;
+    const mass = Math.round(massFromKg(specs.massKg, units));
+    const card = document.createElement('button');
+    card.className = 'vehicle-card';
+    card.classList.toggle('current', current);
+
+    const swatch = document.createElement('span');
+    swatch.className = 'vehicle-swatch';
+    swatch.style.background = config.visuals.bodyColor;
+
+    const name = document.createElement('h3');
+    name.append(swatch, config.name);
+
+    const description = document.createElement('p');
+    description.className = 'vehicle-description';
+    description.textContent = config.description ?? '';
+
+    const rows: [string, string][] = [
+      ['Power', `${Math.round(specs.powerKw)} kW / ${Math.round(specs.powerKw * KW_TO_HP)} hp @ ${specs.powerRpm}`],
+      ['Torque', `${Math.round(specs.torqueNm)} Nm @ ${specs.torqueRpm}`],
+      ['Weight', `${mass} ${massUnit(units)} (${Math.round(specs.powerToWeight)} kW/t)`],
+      specs.batteryKwh !== null
+        ? ['Battery', `${specs.batteryKwh} kWh`]
+        : ['Tank', `${Math.round(volumeFromLiters(specs.tankLiters ?? 0, units))} ${volumeUnit(units)}`],
+      ['Drive', specs.powertrain === 'electric'
+        ? `${specs.layout}, single-speed electric`
+        : `${specs.layout}, ${specs.gears}-speed ${specs.transmission}`],
+    ];
+    const table = document.createElement('dl');
+    table.className = 'vehicle-specs';
+    for (const [label, value] of rows) {
+      const dt = document.createElement('dt');
+      dt.textContent = label;
+      const dd = document.createElement('dd');
+      dd.textContent = value;
+      table.append(dt, dd);
+    }
+
+    card.append(name, description, table);
+    card.addEventListener('click', () => {
+      const callback = this.onSelect;
+      this.close();
+      callback?.(entry);
+    });
+    return card;
+  }
+}
@@ -0,0 +1,115 @@
+import type { VehicleState, AidStatus } from '../../types';
+
+type LampColor = 'red' | 'amber' | 'green' | 'blue';
+
+/** hidden: not fitted to this car; disabled: switched off by the driver */
+type LampLevel = 'hidden' | 'off' | 'on' | 'flash' | 'disabled';
+
+interface LampDefinition {
+  label: string;
+  color: LampColor;
+  level: (state: VehicleState) => LampLevel;
+}
+
+const LOW_ENERGY_PERCENT = 15;
+const DAMAGE_WARNING = 0.3; // worst zone, 0..1
+const DAMAGE_SEVERE = 0.7;
+
+function aidLevel(status: AidStatus): LampLevel {
+  switch (status) {
+    case 'unavailable': return 'hidden';
+    case 'off': return 'disabled';
+    case 'active': return 'on';
+    default: return 'off';
+  }
+}
+
+/** The cluster left to right; each lamp reads its level straight from the vehicle state */
+const LAMPS: LampDefinition[] = [
+  {
+    label: 'ENG',
+    color: 'red',
+    // Key on but nothing running, like a real oil/charge lamp; flashes after a stall
+    level: (s) => {
+      if (s.electric) return 'hidden';
+      if (s.engineRunning || (s.ignition !== 'on' && s.ignition !== 'start')) return 'off';
+      return s.engineStalled ? 'flash' : 'on';
+    },
+  },
+  {
+    label: 'READY',
+    color: 'green',
+    level: (s) => {
+      if (!s.electric) return 'hidden';
+      return s.engineRunning ? 'on' : 'off';
+    },
+  },
+  {
+    label: 'TEMP',
+    color: 'red',
+    level: (s) => {
+      if (s.electric) return 'hidden';
+      if (s.overheating) return 'flash';
+      return s.engineDamage > 0 ? 'on' : 'off';
+    },
+  },
+  {
+    label: 'FUEL',
+    color: 'amber',
+    level: (s) => {
+      if (s.electric) return 'hidden';
+      return s.fuelPercent < LOW_ENERGY_PERCENT ? 'on' : 'off';
+    },
+  },
+  {
+    label: 'CHG',
+    color: 'amber',
+    level: (s) => {
+      if (!s.electric) return 'hidden';
+      return s.electric.charge < LOW_ENERGY_PERCENT ? 'on' : 'off';
+    },
+  },
+  { label: '(P)', color: 'red', level: (s) => (s.handbrake ? 'on' : 'off') },
+  {
+    label: 'DMG',
+    color: 'amber',
+    level: (s) => {
+      const worst = Math.max(s.damage.front, s.damage.rear, s.damage.left, s.damage.right);
+      if (s.fuelLeaking || worst >= DAMAGE_SEVERE) return 'flash';
+      return worst >= DAMAGE_WARNING ? 'on' : 'off';
+    },
+  },
+  { label: 'ABS', color: 'amber', level: (s) => aidLevel(s.aids.abs) },
+  { label: 'TCS', color: 'amber', level: (s) => aidLevel(s.aids.traction) },
+  { label: 'ESC', color: 'amber', level: (s) => aidLevel(s.aids.stability) },
+  { label: 'LIGHTS', color: 'green', level: (s) => (s.headlights ? 'on' : 'off') },
+  { label: 'HIGH', color: 'blue', level: (s) => (s.highBeams ? 'on' : 'off') },
+];
+
+/**
+ * Dashboard warning and status lamps. Lamps are built from the table above
+ * and only touch the DOM when their level changes.
+ */
+export class WarningLamps {
+  private readonly lamps: { definition: LampDefinition; el: HTMLElement; level: LampLevel | null }[];
+
+  constructor(container: HTMLElement) {
+    this.lamps = LAMPS.map((definition) => {
+      const el = document.createElement('span');
+      el.className = 'warning-lamp';
+      el.dataset.color = definition.color;
+      el.textContent = definition.label;
+      return { definition, el, level: null };
+    });
+    container.replaceChildren(...this.lamps.map((lamp) => lamp.el));
+  }
+
+  update(state: VehicleState): void {
+    for (const lamp of this.lamps) {
+      const level = lamp.definition.level(state);
+      if (level === lamp.level) continue;
+      lamp.level = level;
+      lamp.el.dataset.level = level;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type { MilepostConfig, MilepostState, MilepostUnit } from '../../types';
+import { KM_PER_MILE } from '../../utils/constants';
+
+const DEFAULT_MILEPOSTS: MilepostConfig = { unit: 'mile', spacing: 0.1 };
+const UNIT_LENGTH: Record<MilepostUnit, number> = { mile: KM_PER_MILE * 1000, km: 1000 }; // m
+
+/** A post along the route: its spline parameter and the number on it */
+export interface Milepost {
+  t: number;
+  value: number;
+}
+
+/** Number as painted on a post: whole units bare, otherwise up to two decimals */
+export function formatMilepost(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Distance posts at fixed arc-length intervals from the start of the road,
+ * numbered in miles or kilometres. Road spline parameters are arc-length
+ * based, so a post's t is simply its distance over the route length.
+ */
+export class Mileposts {
+  readonly unit: MilepostUnit;
+  private readonly spacing: number; // units between posts
+  private readonly postSpacing: number; // m between posts
+  private readonly routeLength: number; // m
+
+  constructor(routeLength: number, config: MilepostConfig = DEFAULT_MILEPOSTS) {
+    this.unit = config.unit;
+    this.spacing = config.spacing;
+    this.postSpacing = config.spacing * UNIT_LENGTH[config.unit];
+    this.routeLength = routeLength;
+  }
+
+  /** Posts with tStart <= t < tEnd */
+  getPostsInRange(tStart: number, tEnd: number): Milepost[] {
+    const posts: Milepost[] = [];
+    const first = Math.max(0, Math.floor((tStart * this.routeLength) / this.postSpacing));
+    for (let i = first; ; i++) {
+      const t = (i * this.postSpacing) / this.routeLength;
+      if (t < tStart) continue; // same test as the neighbouring chunk, so no post is placed twice
+      if (t >= tEnd || t > 1) break;
+      posts.push({ t, value: this.postValue(i) });
+    }
+    return posts;
+  }
+
+  /** Position along the route by the posts, for spline parameter `t` */
+  getState(t: number): MilepostState {
+    const distance = Math.max(0, t * this.routeLength);
+    const index = Math.floor(distance / this.postSpacing + 1e-9);
+    const hasNext = (index + 1) * this.postSpacing <= this.routeLength;
+    return {
+      unit: this.unit,
+      distance: distance / UNIT_LENGTH[this.unit],
+      lastPost: this.postValue(index),
+      nextPost: hasNext ? this.postValue(index + 1) : null,
+    };
+  }
+
+  /** Rounded so tenths don't come out as 0.30000000000000004 */
+  private postValue(index: number): number {
+    return Math.round(index * this.spacing * 1000) / 1000;
+  }
+}
@@ -1,7 +1,9 @@
 import * as THREE from 'three';
 import type { RoadSpline } from './RoadSpline';
 import type { World } from '../../core/World';
+import type { GasStation } from '../../types';
 import { RoadsideProps } from './RoadsideProps';
+import type { Mileposts } from './Mileposts';
 
 const SEGMENTS_PER_CHUNK = 40;
 const TERRAIN_WIDTH = 60;
@@ -18,6 +20,7 @@ export class RoadChunk {
     tStart: number,
     tEnd: number,
     world: World,
+    mileposts: Mileposts,
   ) {
     this.tStart = tStart;
     this.tEnd = tEnd;
@@ -36,7 +39,7 @@ export class RoadChunk {
     this.mesh.add(this.terrainMesh);
 
     // Generate roadside props (with physics colliders)
-    this.props = new RoadsideProps(spline, tStart, tEnd, world);
+    this.props = new RoadsideProps(spline, tStart, tEnd, mileposts, world);
     this.mesh.add(this.props.group);
   }
 
@@ -204,6 +207,14 @@ export class RoadChunk {
     return mesh;
   }
 
+  getGasStations(): readonly GasStation[] {
+    return this.props.gasStations;
+  }
+
+  getBuildings(): readonly THREE.Vector3[] {
+    return this.props.buildings;
+  }
+
   dispose(): void {
     this.props.dispose();
     this.mesh.traverse((child) => {
@@ -1,24 +1,30 @@
 import * as THREE from 'three';
 import type RAPIER from '@dimforge/rapier3d-compat';
 import type { World } from '../../core/World';
-import type { RoadConfig } from '../../types';
+import type { GasStation, MilepostState, RoadConfig, RoadLandmarks } from '../../types';
 import { RoadSpline } from './RoadSpline';
 import { RoadChunk } from './RoadChunk';
+import { Mileposts } from './Mileposts';
 
 const CHUNK_COUNT = 20; // Total chunks to divide road into
 const VISIBLE_AHEAD = 4; // Chunks ahead of vehicle to keep loaded
 const VISIBLE_BEHIND = 2; // Chunks behind vehicle to keep loaded
+const COARSE_STEPS = 100; // findClosestT samples along the whole road
+const FINE_STEPS = 20; // then within one coarse step either side
 
 export class RoadManager {
   private readonly world: World;
   private readonly spline: RoadSpline;
+  private readonly mileposts: Mileposts;
   private readonly chunks = new Map<number, RoadChunk>();
   private readonly colliders = new Map<number, RAPIER.Collider>();
   private currentChunkIndex = 0;
+  private landmarks: RoadLandmarks = { gasStations: [], buildings: [] };
 
   constructor(world: World, config: RoadConfig) {
     this.world = world;
     this.spline = new RoadSpline(config.waypoints, config.defaultWidth);
+    this.mileposts = new Mileposts(this.spline.totalLength, config.mileposts);
 
     // Create road collider for the full length (static ground with road shape)
     this.createGroundCollider();
@@ -100,20 +106,31 @@ export class RoadManager {
       if (!this.chunks.has(index)) {
         const tStart = index / CHUNK_COUNT;
         const tEnd = (index + 1) / CHUNK_COUNT;
-        const chunk = new RoadChunk(this.spline, tStart, tEnd, this.world);
+        const chunk = new RoadChunk(this.spline, tStart, tEnd, this.world, this.mileposts);
         this.chunks.set(index, chunk);
         this.world.scene.add(chunk.mesh);
       }
     }
+
+    this.landmarks = this.collectLandmarks();
   }
 
-  private findClosestT(position: THREE.Vector3): number {
+  /** Spline parameter (0..1) of the road point nearest `position` */
+  findClosestT(position: THREE.Vector3): number {
     // Coarse search
-    let bestT = 0;
+    const coarse = this.searchClosestT(position, 0, 1, COARSE_STEPS);
+    // Refine around it, close enough for distance readouts
+    const span = 1 / COARSE_STEPS;
+    return this.searchClosestT(
+      position, Math.max(0, coarse - span), Math.min(1, coarse + span), FINE_STEPS,
+    );
+  }
+
+  private searchClosestT(position: THREE.Vector3, tStart: number, tEnd: number, steps: number): number {
+    let bestT = tStart;
     let bestDist = Infinity;
-    const steps = 100;
     for (let i = 0; i <= steps; i++) {
-      const t = i / steps;
+      const t = tStart + (tEnd - tStart) * (i / steps);
       const point = this.spline.getPointAt(t);
       const dist = position.distanceToSquared(point);
       if (dist < bestDist) {
@@ -124,6 +141,42 @@ export class RoadManager {
     return bestT;
   }
 
+  /** Gas station in the loaded chunks whose forecourt is nearest, within `radius` metres of it */
+  findNearbyGasStation(position: THREE.Vector3, radius: number): GasStation | null {
+    let best: GasStation | null = null;
+    let bestDist = radius * radius;
+    for (const chunk of this.chunks.values()) {
+      for (const station of chunk.getGasStations()) {
+        const dist = position.distanceToSquared(station.forecourt);
+        if (dist <= bestDist) {
+          bestDist = dist;
+          best = station;
+        }
+      }
+    }
+    return best;
+  }
+
+  /** Where `position` is by the roadside mile markers, e.g. for the HUD or a saved game */
+  getMilepost(position: THREE.Vector3): MilepostState {
+    return this.mileposts.getState(this.findClosestT(position));
+  }
+
+  /** Gas stations and other buildings in the loaded chunks */
+  getLandmarks(): RoadLandmarks {
+    return this.landmarks;
+  }
+
+  private collectLandmarks(): RoadLandmarks {
+    const gasStations: GasStation[] = [];
+    const buildings: THREE.Vector3[] = [];
+    for (const chunk of this.chunks.values()) {
+      gasStations.push(...chunk.getGasStations());
+      buildings.push(...chunk.getBuildings());
+    }
+    return { gasStations, buildings };
+  }
+
   getStartPosition(): THREE.Vector3 {
     const pos = this.spline.getPointAt(0);
     pos.y += 1.5;
@@ -2,6 +2,9 @@ import * as THREE from 'three';
 import type RAPIER from '@dimforge/rapier3d-compat';
 import type { RoadSpline } from './RoadSpline';
 import type { World } from '../../core/World';
+import type { GasStation, GasStationStatus, MilepostUnit } from '../../types';
+import { formatMilepost } from './Mileposts';
+import type { Mileposts } from './Mileposts';
 
 const PROP_DENSITY = 0.005;
 const MIN_ROAD_OFFSET = 8;
@@ -9,16 +12,23 @@ const MAX_ROAD_OFFSET = 50;
 const BUILDING_MIN_OFFSET = 15;
 const BUILDING_MAX_OFFSET = 35;
 const MOUNTAIN_OFFSET = 120;
+const GAS_STATION_CLOSED_CHANCE = 0.25;
+const GAS_STATION_ABANDONED_CHANCE = 0.15;
+const FORECOURT_DISTANCE = 6; // m from the station centre towards the road, clear of its collider
 
 export class RoadsideProps {
   readonly group: THREE.Group;
+  readonly gasStations: GasStation[] = [];
+  readonly buildings: THREE.Vector3[] = [];
   private readonly colliders: RAPIER.Collider[] = [];
   private readonly world: World | null;
 
-  constructor(spline: RoadSpline, tStart: number, tEnd: number, world: World | null = null) {
+  constructor(
+    spline: RoadSpline, tStart: number, tEnd: number, mileposts: Mileposts, world: World | null = null,
+  ) {
     this.world = world;
     this.group = new THREE.Group();
-    this.generate(spline, tStart, tEnd);
+    this.generate(spline, tStart, tEnd, mileposts);
   }
 
   private addPropCollider(
@@ -36,8 +46,9 @@ export class RoadsideProps {
     this.colliders.push(collider);
   }
 
-  private generate(spline: RoadSpline, tStart: number, tEnd: number): void {
-    const seed = Math.floor(tStart * 10000);
+  private generate(spline: RoadSpline, tStart: number, tEnd: number, mileposts: Mileposts): void {
+    // +1 keeps the first chunk off seed 0, where the generator only ever returns 0
+    const seed = Math.floor(tStart * 10000) + 1;
     let rng = seed;
     const random = () => {
       rng = (rng * 16807 + 0) % 2147483647;
@@ -93,16 +104,35 @@ export class RoadsideProps {
         frame.binormal.clone().multiplyScalar(side * offset),
       );
 
-      const buildRoll = random();
+      // The first stop out of the start is always an open gas station, so a
+      // car the recovery truck brings back there has somewhere to fill up
+      const startStation = tStart === 0 && this.gasStations.length === 0 && this.buildings.length === 0;
+      const buildRoll = startStation ? 0 : random();
       let building: THREE.Object3D;
       if (buildRoll < 0.3) {
-        building = this.createGasStation(random);
+        const statusRoll = startStation ? 1 : random();
+        let status: GasStationStatus = 'open';
+        if (statusRoll < GAS_STATION_ABANDONED_CHANCE) {
+          status = 'abandoned';
+        } else if (statusRoll < GAS_STATION_ABANDONED_CHANCE + GAS_STATION_CLOSED_CHANCE) {
+          status = 'closed';
+        }
+        building = this.createGasStation(random, status);
+        const towardRoad = frame.position.clone().sub(position).setY(0).normalize();
+        this.gasStations.push({
+          position,
+          forecourt: position.clone().addScaledVector(towardRoad, FORECOURT_DISTANCE),
+          status,
+        });
       } else if (buildRoll < 0.55) {
         building = this.createMotel(random);
+        this.buildings.push(position);
       } else if (buildRoll < 0.75) {
         building = this.createDiner(random);
+        this.buildings.push(position);
       } else {
         building = this.createAbandonedHouse(random);
+        this.buildings.push(position);
       }
 
       building.position.copy(position);
@@ -132,12 +162,10 @@ export class RoadsideProps {
       this.group.add(mountain);
     }
 
-    // --- Mile markers ---
-    const markerInterval = 0.02;
-    for (let t = tStart; t < tEnd; t += markerInterval) {
-      if (t < 0 || t > 1) continue;
-      const frame = spline.getFrenetFrame(Math.min(t, 1));
-      const marker = this.createMileMarker();
+    // --- Mile markers, at true distances along the road ---
+    for (const post of mileposts.getPostsInRange(tStart, tEnd)) {
+      const frame = spline.getFrenetFrame(post.t);
+      const marker = this.createMileMarker(formatMilepost(post.value), mileposts.unit);
       const pos = frame.position.clone().add(
         frame.binormal.clone().multiplyScalar(6),
       );
@@ -329,13 +357,15 @@ export class RoadsideProps {
 
   // ===== Buildings =====
 
-  private createGasStation(random: () => number): THREE.Group {
+  /** Abandoned stations are weathered, with no canopy roof, dead pumps and no sign */
+  private createGasStation(random: () => number, status: GasStationStatus): THREE.Group {
     const station = new THREE.Group();
+    const abandoned = status === 'abandoned';
     const wallMat = new THREE.MeshStandardMaterial({
-      color: new THREE.Color(0.85, 0.82, 0.75),
+      color: abandoned ? new THREE.Color(0.5, 0.45, 0.38) : new THREE.Color(0.85, 0.82, 0.75),
       roughness: 0.9,
     });
-    const roofMat = new THREE.MeshStandardMaterial({ color: 0x8b0000, roughness: 0.8 });
+    const roofMat = new THREE.MeshStandardMaterial({ color: abandoned ? 0x4a2a20 : 0x8b0000, roughness: 0.8 });
     const canopyMat = new THREE.MeshStandardMaterial({ color: 0xdddddd, roughness: 0.5 });
 
     // Main building
@@ -361,13 +391,15 @@ export class RoadsideProps {
       post.position.set(px, 1.75, pz);
       station.add(post);
     }
-    const canopy = new THREE.Mesh(new THREE.BoxGeometry(7, 0.15, 6), canopyMat);
-    canopy.position.set(0, 3.5, 0);
-    canopy.castShadow = true;
-    station.add(canopy);
+    if (!abandoned) {
+      const canopy = new THREE.Mesh(new THREE.BoxGeometry(7, 0.15, 6), canopyMat);
+      canopy.position.set(0, 3.5, 0);
+      canopy.castShadow = true;
+      station.add(canopy);
+    }
 
     // Gas pumps
-    const pumpMat = new THREE.MeshStandardMaterial({ color: 0xcc2222, roughness: 0.6 });
+    const pumpMat = new THREE.MeshStandardMaterial({ color: abandoned ? 0x555555 : 0xcc2222, roughness: 0.6 });
     for (let i = -1; i <= 1; i += 2) {
       const pump = new THREE.Mesh(new THREE.BoxGeometry(0.4, 1.5, 0.4), pumpMat);
       pump.position.set(0, 0.75, i * 1.5);
@@ -375,8 +407,8 @@ export class RoadsideProps {
       station.add(pump);
     }
 
-    // Sign pole
-    if (random() > 0.3) {
+    // Sign pole, lit while the station is open
+    if (!abandoned && random() > 0.3) {
       const signPole = new THREE.Mesh(
         new THREE.CylinderGeometry(0.05, 0.05, 5, 6),
         new THREE.MeshStandardMaterial({ color: 0x666666 }),
@@ -386,7 +418,9 @@ export class RoadsideProps {
 
       const sign = new THREE.Mesh(
         new THREE.BoxGeometry(2, 1, 0.1),
-        new THREE.MeshStandardMaterial({ color: 0x224488, emissive: 0x112244, emissiveIntensity: 0.2 }),
+        new THREE.MeshStandardMaterial({
+          color: 0x224488, emissive: 0x112244, emissiveIntensity: status === 'open' ? 0.2 : 0,
+        }),
       );
       sign.position.set(4, 5, 0);
       station.add(sign);
@@ -628,7 +662,7 @@ export class RoadsideProps {
 
   // ===== Infrastructure =====
 
-  private createMileMarker(): THREE.Group {
+  private createMileMarker(label: string, unit: MilepostUnit): THREE.Group {
     const marker = new THREE.Group();
     const post = new THREE.Mesh(
       new THREE.BoxGeometry(0.1, 1.2, 0.05),
@@ -637,15 +671,44 @@ export class RoadsideProps {
     post.position.y = 0.6;
     marker.add(post);
 
+    // Number painted on the face towards the road (+Z after lookAt), plain green elsewhere
+    const plainMat = new THREE.MeshStandardMaterial({ color: 0x336633 });
+    const faceMat = new THREE.MeshStandardMaterial({ map: this.createMileMarkerTexture(label, unit) });
     const sign = new THREE.Mesh(
-      new THREE.BoxGeometry(0.6, 0.4, 0.04),
-      new THREE.MeshStandardMaterial({ color: 0x336633 }),
+      new THREE.BoxGeometry(0.4, 0.6, 0.04),
+      [plainMat, plainMat, plainMat, plainMat, faceMat, plainMat],
     );
-    sign.position.y = 1.1;
+    sign.position.y = 1.4;
     marker.add(sign);
     return marker;
   }
 
+  /** Green reflective plate: the unit over the number, white on green like the real thing */
+  private createMileMarkerTexture(label: string, unit: MilepostUnit): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = 128;
+    canvas.height = 192;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#336633';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 6;
+    ctx.strokeRect(8, 8, canvas.width - 16, canvas.height - 16);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 28px sans-serif';
+    ctx.fillText(unit === 'mile' ? 'MILE' : 'KM', canvas.width / 2, 50);
+    // maxWidth squeezes long numbers inside the border
+    ctx.font = 'bold 64px sans-serif';
+    ctx.fillText(label, canvas.width / 2, 120, canvas.width - 32);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  }
+
   private createTelephonePole(addLight = false): THREE.Group {
     const pole = new THREE.Group();
     const woodMat = new THREE.MeshStandardMaterial({ color: 0x6b5b3a, roughness: 1.0 });
@@ -703,10 +766,11 @@ export class RoadsideProps {
     this.group.traverse((child) => {
       if (child instanceof THREE.Mesh) {
         child.geometry.dispose();
-        if (Array.isArray(child.material)) {
-          child.material.forEach((m) => m.dispose());
-        } else {
-          child.material.dispose();
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        for (const material of materials) {
+          // Mile marker numbers are canvas textures of their own
+          if (material instanceof THREE.MeshStandardMaterial) material.map?.dispose();
+          material.dispose();
         }
       }
     });
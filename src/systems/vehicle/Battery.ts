@@ -0,0 +1,69 @@
+import { clamp } from '../../utils/math';
+import type { ElectricVehicleConfig } from '../../types';
+
+const CHARGE_TAPER_START = 0.8; // state of charge where charging starts to slow
+const CHARGE_TAPER_MIN = 0.1; // fraction of the charge rate left at full
+const REGEN_TAPER_START = 0.95; // a nearly full pack refuses regen
+
+/** Traction battery as an energy store with a state of charge */
+export class Battery {
+  private energy: number; // kWh
+  private used = 0; // kWh drawn for driving since new, net of regen
+  private readonly config: ElectricVehicleConfig['battery'];
+
+  constructor(config: ElectricVehicleConfig['battery']) {
+    this.config = config;
+    this.energy = config.capacity;
+  }
+
+  /** Draw (positive) or store (negative) electrical power in kW for dt seconds */
+  update(powerKw: number, dt: number): void {
+    const before = this.energy;
+    this.energy = clamp(this.energy - (powerKw * dt) / 3600, 0, this.config.capacity);
+    this.used += before - this.energy;
+  }
+
+  /**
+   * Take charge from a charger of the given rating. The rate falls off
+   * above 80 % to protect the cells. Returns the kW actually accepted.
+   */
+  charge(chargerKw: number, dt: number): number {
+    const soc = this.getStateOfCharge();
+    const taper = soc < CHARGE_TAPER_START
+      ? 1
+      : Math.max(CHARGE_TAPER_MIN, (1 - soc) / (1 - CHARGE_TAPER_START));
+    const power = soc >= 1 ? 0 : Math.min(chargerKw, this.config.maxChargePower) * taper;
+    this.energy = Math.min(this.config.capacity, this.energy + (power * dt) / 3600);
+    return power;
+  }
+
+  /** Add `kwh` straight into the pack, e.g. from a portable charger; returns what fitted */
+  addEnergy(kwh: number): number {
+    const before = this.energy;
+    this.energy = clamp(this.energy + kwh, 0, this.config.capacity);
+    return this.energy - before;
+  }
+
+  /** Fraction of requested regen the pack will take, less as it fills */
+  getRegenAcceptance(): number {
+    return clamp((1 - this.getStateOfCharge()) / (1 - REGEN_TAPER_START), 0, 1);
+  }
+
+  /** 0..1 */
+  getStateOfCharge(): number {
+    return this.energy / this.config.capacity;
+  }
+
+  getEnergy(): number {
+    return this.energy;
+  }
+
+  /** kWh used for driving since the car was built, net of regen (charging not included) */
+  getUsed(): number {
+    return this.used;
+  }
+
+  isEmpty(): boolean {
+    return this.energy <= 0;
+  }
+}
@@ -0,0 +1,87 @@
+import { clamp } from '../../utils/math';
+import type { CombustionVehicleConfig } from '../../types';
+
+const AMBIENT_TEMP = 30; // °C
+const PRESS_TIME = 0.12; // seconds for the pedal to travel fully down
+const FADE_START_TEMP = 250; // °C, friction starts to fade above this
+const FADE_FULL_TEMP = 400; // °C, friction down to FADE_MIN at this point
+const FADE_MIN = 0.4;
+const AUTO_ENGAGE_RANGE = 1000; // RPM above idle over which the auto clutch closes
+
+export class Clutch {
+  private pedal = 0; // 0 = released (engaged), 1 = fully pressed
+  private temperature = AMBIENT_TEMP;
+  private automatic = false;
+  private slipPower = 0;
+  private readonly config: CombustionVehicleConfig['clutch'];
+  private readonly idleRpm: number;
+
+  constructor(config: CombustionVehicleConfig['clutch'], idleRpm: number) {
+    this.config = config;
+    this.idleRpm = idleRpm;
+  }
+
+  /**
+   * Move the pedal towards the requested position (0..1). Release is
+   * rate-limited so a keyboard tap still lets the clutch out progressively.
+   * With the automatic clutch, the pedal input is ignored and engagement
+   * follows engine RPM like a centrifugal clutch / torque converter.
+   */
+  update(pedalInput: number, engineRpm: number, dt: number): void {
+    let target = clamp(pedalInput, 0, 1);
+    if (this.automatic) {
+      const start = this.idleRpm * 1.1;
+      target = 1 - clamp((engineRpm - start) / AUTO_ENGAGE_RANGE, 0, 1);
+    }
+
+    if (target > this.pedal) {
+      this.pedal = Math.min(target, this.pedal + dt / PRESS_TIME);
+    } else {
+      this.pedal = Math.max(target, this.pedal - dt / this.config.releaseTime);
+    }
+
+    // Slip heat soaks into the plate, then bleeds off to ambient
+    const cooling = (this.temperature - AMBIENT_TEMP) * this.config.coolingRate;
+    this.temperature += ((this.slipPower - cooling) / this.config.heatCapacity) * dt;
+    this.slipPower = 0;
+  }
+
+  /** 0 = open, 1 = fully clamped. Nothing transmits above the bite point. */
+  getEngagement(): number {
+    const { bitePoint } = this.config;
+    const t = clamp((bitePoint - this.pedal) / bitePoint, 0, 1);
+    return t * t * (3 - 2 * t);
+  }
+
+  /** Maximum torque the clutch can carry right now (Nm) */
+  getCapacity(): number {
+    const fadeT = clamp(
+      (this.temperature - FADE_START_TEMP) / (FADE_FULL_TEMP - FADE_START_TEMP), 0, 1,
+    );
+    const fade = 1 - fadeT * (1 - FADE_MIN);
+    return this.getEngagement() * this.config.maxTorque * fade;
+  }
+
+  /** Record friction work from a slipping clutch this step */
+  addSlip(torque: number, slipRadS: number): void {
+    this.slipPower += Math.abs(torque * slipRadS);
+  }
+
+  getPedal(): number {
+    return this.pedal;
+  }
+
+  getTemperature(): number {
+    return this.temperature;
+  }
+
+  setAutomatic(automatic: boolean): void {
+    this.automatic = automatic;
+  }
+
+  reset(): void {
+    this.pedal = 0;
+    this.temperature = AMBIENT_TEMP;
+    this.slipPower = 0;
+  }
+}
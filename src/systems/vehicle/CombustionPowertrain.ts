@@ -0,0 +1,173 @@
+import type {
+  CombustionVehicleConfig, InputState, TransmissionMode, EngineStopReason, PowertrainState,
+} from '../../types';
+import type { Powertrain, PowertrainStep } from './Powertrain';
+import { EngineSimulation } from './EngineSimulation';
+import { Transmission } from './Transmission';
+import { FuelSystem } from './FuelSystem';
+import { Clutch } from './Clutch';
+import { Ignition } from './Ignition';
+import { CoolingSystem } from './CoolingSystem';
+
+const RESCUE_FUEL = 5; // L left by the recovery truck in a dry tank, enough to reach a station
+
+/** Piston engine, clutch and stepped gearbox, fed from a fuel tank */
+export class CombustionPowertrain implements Powertrain {
+  readonly type = 'combustion';
+  private readonly config: CombustionVehicleConfig;
+  private readonly engine: EngineSimulation;
+  private readonly transmission: Transmission;
+  private readonly fuel: FuelSystem;
+  private readonly clutch: Clutch;
+  private readonly ignition: Ignition;
+  private readonly cooling: CoolingSystem;
+  private overallRatio = 0;
+
+  constructor(config: CombustionVehicleConfig) {
+    this.config = config;
+    this.engine = new EngineSimulation(config.engine);
+    this.transmission = new Transmission(config.transmission, config.engine.maxRpm);
+    this.fuel = new FuelSystem(config.fuel);
+    this.clutch = new Clutch(config.clutch, config.engine.idleRpm);
+    this.clutch.setAutomatic(this.transmission.getMode() === 'automatic');
+    this.ignition = new Ignition();
+    this.cooling = new CoolingSystem(config.cooling, config.engine.redlineRpm);
+  }
+
+  handleControls(input: InputState, speedKmh: number): void {
+    // Gear shifting (tip-shift override when automatic)
+    if (input.shiftUp) this.transmission.shiftUp();
+    if (input.shiftDown) this.transmission.shiftDown();
+    if (input.selectorUp) this.transmission.moveSelector(-1, speedKmh);
+    if (input.selectorDown) this.transmission.moveSelector(1, speedKmh);
+
+    this.ignition.update(input.ignitionKey, input.ignitionOff);
+  }
+
+  update(step: PowertrainStep): number {
+    const { throttle, wheelRpm, dt } = step;
+
+    // The gearbox reads the pedal, not the aid-limited throttle
+    const gearRatio = this.transmission.getCurrentGearRatio();
+    const finalDrive = this.transmission.getFinalDriveRatio();
+    this.overallRatio = gearRatio * finalDrive;
+    this.transmission.update(dt, wheelRpm, step.pedal, step.load);
+
+    // Ignition key and starter motor
+    this.engine.setIgnition(this.ignition.isOn());
+    this.engine.setStarter(this.ignition.isCranking());
+    this.engine.setFuelAvailable(!this.fuel.isEmpty());
+    this.engine.setPowerFactor(this.cooling.getPowerFactor() * step.powerFactor);
+    this.engine.setSeized(this.cooling.isSeized());
+
+    // Clutch pedal, then engine torque delivered through it
+    this.clutch.update(step.clutch, this.engine.getRpm(), dt);
+    const clutchTorque = this.engine.update(
+      throttle, wheelRpm, gearRatio, finalDrive, this.clutch, dt,
+    );
+
+    // Fuel consumption
+    if (this.engine.isRunning()) {
+      this.fuel.update(
+        this.engine.getRpm(), this.engine.getCombustionTorque(), dt, this.engine.getFuelEnrichment(),
+      );
+    }
+    this.fuel.drain(step.fuelLeak);
+    this.cooling.update(
+      this.engine.getRpm(), this.engine.getCombustionTorque(), this.engine.isRunning(),
+      step.speed, dt,
+    );
+
+    if (gearRatio === 0) return 0;
+    return clutchTorque * this.overallRatio * this.transmission.getEfficiency();
+  }
+
+  /** Engine and gearbox inertia, seen through the clutch and the overall ratio */
+  getDrivelineInertia(): number {
+    return this.config.engine.inertia * this.overallRatio * this.overallRatio
+      * this.clutch.getEngagement();
+  }
+
+  isRunning(): boolean {
+    return this.engine.isRunning();
+  }
+
+  getStopReason(): EngineStopReason | null {
+    return this.engine.getStopReason();
+  }
+
+  getGear(): number {
+    return this.transmission.getGear();
+  }
+
+  isInGear(): boolean {
+    return this.transmission.getCurrentGearRatio() !== 0;
+  }
+
+  isParked(): boolean {
+    return this.transmission.isParked();
+  }
+
+  getGearDisplay(): string {
+    return this.transmission.getGearDisplay();
+  }
+
+  getTransmissionMode(): TransmissionMode {
+    return this.transmission.getMode();
+  }
+
+  setTransmissionMode(mode: TransmissionMode): void {
+    this.transmission.setMode(mode);
+    this.clutch.setAutomatic(mode === 'automatic');
+  }
+
+  setAmbientTemperature(temp: number): void {
+    this.cooling.setAmbientTemperature(temp);
+  }
+
+  getEnergyUsed(): number {
+    return this.fuel.getBurned();
+  }
+
+  getEnergyRemaining(): number {
+    return this.fuel.getFuelLevel();
+  }
+
+  /** Pump `liters` into the tank; returns what fitted before it was full */
+  refuel(liters: number): number {
+    return this.fuel.refuel(liters);
+  }
+
+  getState(): PowertrainState {
+    return {
+      rpm: Math.round(this.engine.getRpm()),
+      gear: this.transmission.getGear(),
+      fuel: this.fuel.getFuelLevel(),
+      fuelPercent: this.fuel.getFuelPercent(),
+      engineRunning: this.engine.isRunning(),
+      isShifting: this.transmission.isShifting(),
+      clutch: this.clutch.getPedal(),
+      clutchTemperature: this.clutch.getTemperature(),
+      engineStalled: this.engine.isStalled(),
+      coolantTemp: this.cooling.getCoolantTemp(),
+      oilTemp: this.cooling.getOilTemp(),
+      overheating: this.cooling.isOverheating(),
+      engineDamage: this.cooling.getDamage(),
+      ignition: this.ignition.getState(),
+      cranking: this.engine.isCranking(),
+      boost: this.engine.getBoostState(),
+      electric: null,
+      transmissionMode: this.transmission.getMode(),
+      gearSelector: this.transmission.getSelector(),
+    };
+  }
+
+  reset(): void {
+    this.transmission.resetToNeutral();
+    if (this.fuel.isEmpty()) this.fuel.refuel(RESCUE_FUEL);
+    this.ignition.setState('on');
+    this.engine.setRunning(!this.fuel.isEmpty());
+    this.clutch.reset();
+    this.cooling.reset();
+  }
+}
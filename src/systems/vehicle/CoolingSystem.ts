@@ -0,0 +1,109 @@
+import { clamp } from '../../utils/math';
+import { RPM_TO_RAD_S } from '../../utils/constants';
+import type { CombustionVehicleConfig } from '../../types';
+
+const DEFAULT_AMBIENT = 38; // °C, desert afternoon
+const COOLANT_HEAT_SHARE = 0.9; // coolant heat per watt of brake power
+const IDLE_HEAT = 3000; // W rejected to coolant just to keep running
+const THERMOSTAT_RANGE = 10; // °C over which the thermostat opens
+const THERMOSTAT_LEAK = 0.05; // flow past a closed thermostat
+const FAN_ON_OFFSET = 8; // °C above thermostat the electric fan switches on
+const OIL_TIME_CONSTANT = 60; // seconds for oil to follow coolant
+const OIL_RPM_HEAT = 15; // °C oil runs above coolant at redline
+const OVERHEAT_POWER_LOSS = 0.5; // power lost between overheat and damage temps
+const DAMAGE_RATE = 0.01; // damage per second per °C above damage temp
+const DAMAGE_POWER_LOSS = 0.6; // power lost at full damage
+
+export class CoolingSystem {
+  private coolantTemp = DEFAULT_AMBIENT;
+  private oilTemp = DEFAULT_AMBIENT;
+  private ambientTemp = DEFAULT_AMBIENT;
+  private damage = 0;
+  private fanOn = false;
+  private readonly config: CombustionVehicleConfig['cooling'];
+  private readonly redlineRpm: number;
+
+  constructor(config: CombustionVehicleConfig['cooling'], redlineRpm: number) {
+    this.config = config;
+    this.redlineRpm = redlineRpm;
+  }
+
+  /**
+   * Heat from combustion goes into the coolant; the radiator sheds it to
+   * ambient through the thermostat, faster with airflow or the fan.
+   */
+  update(rpm: number, combustionTorque: number, running: boolean, speedMs: number, dt: number): void {
+    const { thermostatTemp, radiatorConductance, airflowConductance, fanConductance } = this.config;
+
+    let heat = 0;
+    if (running) {
+      const brakePower = Math.max(0, combustionTorque) * rpm * RPM_TO_RAD_S;
+      heat = brakePower * COOLANT_HEAT_SHARE + IDLE_HEAT;
+    }
+
+    // Fan with a little hysteresis so it doesn't chatter at the switch point
+    if (this.coolantTemp > thermostatTemp + FAN_ON_OFFSET) this.fanOn = true;
+    else if (this.coolantTemp < thermostatTemp + FAN_ON_OFFSET - 3) this.fanOn = false;
+
+    const thermostatOpen = clamp(
+      (this.coolantTemp - (thermostatTemp - THERMOSTAT_RANGE / 2)) / THERMOSTAT_RANGE,
+      THERMOSTAT_LEAK,
+      1,
+    );
+    const conductance = (radiatorConductance
+      + airflowConductance * Math.abs(speedMs)
+      + (this.fanOn && running ? fanConductance : 0)) * thermostatOpen;
+    const rejected = conductance * (this.coolantTemp - this.ambientTemp);
+
+    this.coolantTemp += ((heat - rejected) / this.config.heatCapacity) * dt;
+
+    // Oil lags coolant and runs hotter with revs
+    const oilTarget = this.coolantTemp + OIL_RPM_HEAT * clamp(rpm / this.redlineRpm, 0, 1);
+    this.oilTemp += (oilTarget - this.oilTemp) * (dt / OIL_TIME_CONSTANT);
+
+    if (this.coolantTemp > this.config.damageTemp) {
+      this.damage = clamp(
+        this.damage + (this.coolantTemp - this.config.damageTemp) * DAMAGE_RATE * dt, 0, 1,
+      );
+    }
+  }
+
+  /** Engine output multiplier from overheating protection and accumulated damage */
+  getPowerFactor(): number {
+    const { overheatTemp, damageTemp } = this.config;
+    const overheat = clamp((this.coolantTemp - overheatTemp) / (damageTemp - overheatTemp), 0, 1);
+    return (1 - overheat * OVERHEAT_POWER_LOSS) * (1 - this.damage * DAMAGE_POWER_LOSS);
+  }
+
+  getCoolantTemp(): number {
+    return this.coolantTemp;
+  }
+
+  getOilTemp(): number {
+    return this.oilTemp;
+  }
+
+  /** Thermal damage 0..1; the engine seizes at 1 */
+  getDamage(): number {
+    return this.damage;
+  }
+
+  isOverheating(): boolean {
+    return this.coolantTemp >= this.config.overheatTemp;
+  }
+
+  isSeized(): boolean {
+    return this.damage >= 1;
+  }
+
+  setAmbientTemperature(temp: number): void {
+    this.ambientTemp = temp;
+  }
+
+  reset(): void {
+    this.coolantTemp = this.ambientTemp;
+    this.oilTemp = this.ambientTemp;
+    this.damage = 0;
+    this.fanOn = false;
+  }
+}
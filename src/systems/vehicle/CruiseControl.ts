@@ -0,0 +1,130 @@
+import { clamp } from '../../utils/math';
+import { KMH_TO_MS } from '../../utils/constants';
+import type { CruiseMode } from '../../types';
+
+const KP = 0.5; // throttle per m/s of speed error
+const KI = 0.1; // throttle per m/s·s of accumulated error
+const KD = 0.05; // throttle per m/s² of acceleration (on measurement, no set-point kick)
+const MIN_CRUISE_SPEED = 30; // km/h, cruise won't engage or hold below this
+const MIN_LIMIT_SPEED = 20; // km/h
+const MAX_SET_SPEED = 200; // km/h
+const SET_SPEED_STEP = 5; // km/h per key press
+
+/**
+ * Cruise control and speed limiter sharing one PID speed loop.
+ *
+ * Cruise holds the set speed by supplying throttle; the driver can still
+ * press harder to go faster. Braking or the clutch drops it to standby with
+ * the set speed remembered for a resume. The limiter instead caps the
+ * driver's own throttle so the car never runs past the set speed.
+ */
+export class CruiseControl {
+  private mode: CruiseMode = 'off';
+  private engaged = false;
+  private setSpeed = 0; // km/h
+  private integral = 0;
+  private prevSpeed: number | null = null;
+
+  /** Set/resume button: engage at the current speed, resume from standby, or switch off */
+  setOrResume(speedKmh: number): void {
+    if (this.mode === 'cruise' && this.engaged) {
+      this.switchOff();
+      return;
+    }
+    if (this.mode === 'cruise' && this.setSpeed > 0) {
+      if (speedKmh >= MIN_CRUISE_SPEED) this.engage();
+      return;
+    }
+    if (speedKmh < MIN_CRUISE_SPEED) return;
+    this.mode = 'cruise';
+    this.setSpeed = Math.round(speedKmh);
+    this.engage();
+  }
+
+  /** Limiter button: cap at the current speed (at least the minimum), or switch off */
+  toggleLimiter(speedKmh: number): void {
+    if (this.mode === 'limiter') {
+      this.switchOff();
+      return;
+    }
+    this.mode = 'limiter';
+    this.setSpeed = Math.max(MIN_LIMIT_SPEED, Math.round(speedKmh / SET_SPEED_STEP) * SET_SPEED_STEP);
+    this.engage();
+  }
+
+  /** Nudge the set speed by whole steps (+1 / -1) */
+  adjust(steps: number): void {
+    if (this.mode === 'off') return;
+    const min = this.mode === 'cruise' ? MIN_CRUISE_SPEED : MIN_LIMIT_SPEED;
+    this.setSpeed = clamp(this.setSpeed + steps * SET_SPEED_STEP, min, MAX_SET_SPEED);
+  }
+
+  /** Drop cruise to standby (brake, clutch, gear change to neutral...) */
+  disengage(): void {
+    if (this.mode === 'cruise') this.engaged = false;
+  }
+
+  private engage(): void {
+    this.engaged = true;
+    this.integral = 0;
+    this.prevSpeed = null;
+  }
+
+  private switchOff(): void {
+    this.mode = 'off';
+    this.engaged = false;
+  }
+
+  /** Throttle to send to the engine given the driver's pedal */
+  update(dt: number, speedKmh: number, driverThrottle: number): number {
+    if (!this.engaged) return driverThrottle;
+    if (this.mode === 'cruise' && speedKmh < MIN_CRUISE_SPEED) {
+      this.disengage();
+      return driverThrottle;
+    }
+
+    const error = (this.setSpeed - speedKmh) * KMH_TO_MS;
+    const speed = speedKmh * KMH_TO_MS;
+    const accel = this.prevSpeed === null ? 0 : (speed - this.prevSpeed) / dt;
+    this.prevSpeed = speed;
+
+    const unclamped = KP * error + this.integral - KD * accel;
+    const output = clamp(unclamped, 0, 1);
+
+    if (this.mode === 'cruise') {
+      // Anti-windup: only integrate while the output isn't pinned against a limit
+      // or the error is pulling it back off that limit
+      if (output === unclamped || (unclamped > 1) !== (error > 0)) {
+        this.integral = clamp(this.integral + KI * error * dt, 0, 1);
+      }
+      return Math.max(driverThrottle, output);
+    }
+
+    // Limiter: the loop only matters while it is holding the driver back
+    if (driverThrottle > output) {
+      this.integral = clamp(this.integral + KI * error * dt, 0, 1);
+    } else {
+      this.integral = driverThrottle;
+    }
+    return Math.min(driverThrottle, output);
+  }
+
+  getMode(): CruiseMode {
+    return this.mode;
+  }
+
+  isEngaged(): boolean {
+    return this.engaged;
+  }
+
+  getSetSpeed(): number {
+    return this.setSpeed;
+  }
+
+  reset(): void {
+    this.switchOff();
+    this.setSpeed = 0;
+    this.integral = 0;
+    this.prevSpeed = null;
+  }
+}
@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+import { clamp } from '../../utils/math';
+import type { VehicleConfig, DamageState } from '../../types';
+
+const ENGINE_POWER_LOSS = 0.5; // power lost at full front damage
+const WHEEL_GRIP_LOSS = 0.3; // grip lost by a wheel with its corner fully wrecked
+const LEAK_ONSET = 0.3; // rear damage before the tank starts to leak
+
+/**
+ * Accumulates crash damage into four zones around the chassis from the
+ * kinetic energy of each impact, and turns it into handling penalties.
+ */
+export class DamageModel {
+  private readonly zones: DamageState = { front: 0, rear: 0, left: 0, right: 0 };
+  private readonly config: VehicleConfig['damage'];
+  private readonly positions: [number, number, number][];
+
+  constructor(config: VehicleConfig['damage'], wheels: VehicleConfig['wheels']) {
+    this.config = config;
+    this.positions = wheels.positions;
+  }
+
+  /**
+   * Register an impact. `localDirection` points from the chassis towards
+   * the obstacle in chassis space (+z forward, +x left). Returns the share
+   * of the impact that caused damage (0 when below threshold).
+   */
+  applyImpact(energy: number, localDirection: THREE.Vector3): number {
+    const excess = energy - this.config.impactThreshold;
+    if (excess <= 0) return 0;
+
+    const dir = new THREE.Vector2(localDirection.x, localDirection.z);
+    if (dir.lengthSq() < 1e-6) return 0;
+    dir.normalize();
+
+    const amount = excess / this.config.impactToFullDamage;
+    // Squared components of a unit vector sum to 1, so energy is shared out
+    this.zones.front = clamp(this.zones.front + Math.max(0, dir.y) ** 2 * amount, 0, 1);
+    this.zones.rear = clamp(this.zones.rear + Math.max(0, -dir.y) ** 2 * amount, 0, 1);
+    this.zones.left = clamp(this.zones.left + Math.max(0, dir.x) ** 2 * amount, 0, 1);
+    this.zones.right = clamp(this.zones.right + Math.max(0, -dir.x) ** 2 * amount, 0, 1);
+    return amount;
+  }
+
+  /** Engine output multiplier: front impacts reach the engine bay */
+  getEnginePowerFactor(): number {
+    return 1 - this.zones.front * ENGINE_POWER_LOSS;
+  }
+
+  /** Bent steering arms pull towards the more damaged side (radians, + = left) */
+  getSteeringOffset(): number {
+    return (this.zones.left - this.zones.right) * this.config.maxSteeringOffset;
+  }
+
+  /** Grip multiplier for a wheel from damage to its side and axle */
+  getWheelGripFactor(index: number): number {
+    const [x, , z] = this.positions[index];
+    const side = x > 0 ? this.zones.left : this.zones.right;
+    const axle = z > 0 ? this.zones.front : this.zones.rear;
+    return 1 - ((side + axle) / 2) * WHEEL_GRIP_LOSS;
+  }
+
+  /** Fuel leak rate in L/s once the rear (tank) is damaged enough */
+  getFuelLeakRate(): number {
+    const t = clamp((this.zones.rear - LEAK_ONSET) / (1 - LEAK_ONSET), 0, 1);
+    return t * this.config.maxLeakRate;
+  }
+
+  /** Overall damage 0..1, the worst zone */
+  getTotal(): number {
+    return Math.max(this.zones.front, this.zones.rear, this.zones.left, this.zones.right);
+  }
+
+  getState(): DamageState {
+    return { ...this.zones };
+  }
+
+  repair(): void {
+    this.zones.front = 0;
+    this.zones.rear = 0;
+    this.zones.left = 0;
+    this.zones.right = 0;
+  }
+}
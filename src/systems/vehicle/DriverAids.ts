@@ -0,0 +1,171 @@
+import { clamp } from '../../utils/math';
+import { GRAVITY } from '../../utils/constants';
+import type { VehicleConfig, WheelState, DriverAid, AidStatus } from '../../types';
+
+const ABS_MIN_SPEED = 2; // m/s, ABS lets wheels lock below this to stop fully
+const ABS_RELEASE_RATE = 8; // brake factor per second while a wheel is locking
+const ABS_APPLY_RATE = 4; // brake factor per second while grip is back
+const ABS_MIN_FACTOR = 0.2;
+const TC_CUT_RATE = 5; // throttle factor per second while spinning
+const TC_RESTORE_RATE = 2;
+const TC_MIN_FACTOR = 0.1;
+const ESC_MIN_SPEED = 5; // m/s
+const ESC_THROTTLE_CUT = 0.5;
+const ESC_GRIP_LIMIT = 0.9; // fraction of g the reference yaw is capped to
+
+export interface AidInput {
+  wheels: WheelState[];
+  drivenWheels: readonly number[];
+  braking: boolean;
+  throttle: number;
+  speed: number; // m/s, forward
+  yawRate: number; // rad/s, positive turning left
+  steering: number; // radians, positive left
+}
+
+/**
+ * ABS, traction control and yaw stability control. Each aid is only
+ * present when the vehicle config has a section for it and can be
+ * switched off at runtime. Works from last step's wheel telemetry.
+ */
+export class DriverAids {
+  private readonly config: VehicleConfig['aids'];
+  private readonly positions: [number, number, number][];
+  private readonly wheelbase: number;
+  private readonly enabled: Record<DriverAid, boolean>;
+  private readonly active: Record<DriverAid, boolean> = {
+    abs: false,
+    traction: false,
+    stability: false,
+  };
+  private readonly absFactors: number[];
+  private readonly stabilityBrakes: number[];
+  private tractionFactor = 1;
+  private stabilityFactor = 1;
+
+  constructor(config: VehicleConfig['aids'], wheels: VehicleConfig['wheels']) {
+    this.config = config;
+    this.positions = wheels.positions;
+    const zs = wheels.positions.map((p) => p[2]);
+    this.wheelbase = Math.max(...zs) - Math.min(...zs);
+    this.enabled = {
+      abs: this.isEquipped('abs'),
+      traction: this.isEquipped('traction'),
+      stability: this.isEquipped('stability'),
+    };
+    this.absFactors = wheels.positions.map(() => 1);
+    this.stabilityBrakes = wheels.positions.map(() => 0);
+  }
+
+  update(input: AidInput, dt: number): void {
+    this.updateAbs(input, dt);
+    this.updateTraction(input, dt);
+    this.updateStability(input);
+  }
+
+  private updateAbs(input: AidInput, dt: number): void {
+    const abs = this.config?.abs;
+    let intervening = false;
+    for (let i = 0; i < this.absFactors.length; i++) {
+      const wheel = input.wheels[i];
+      const locking = abs && this.enabled.abs && input.braking
+        && Math.abs(input.speed) > ABS_MIN_SPEED
+        && wheel.inContact && wheel.slipRatio < -abs.slipThreshold;
+      if (locking) {
+        this.absFactors[i] = Math.max(ABS_MIN_FACTOR, this.absFactors[i] - ABS_RELEASE_RATE * dt);
+      } else {
+        this.absFactors[i] = Math.min(1, this.absFactors[i] + ABS_APPLY_RATE * dt);
+      }
+      if (this.absFactors[i] < 1 && input.braking) intervening = true;
+    }
+    this.active.abs = intervening;
+  }
+
+  private updateTraction(input: AidInput, dt: number): void {
+    const traction = this.config?.traction;
+    let spinning = false;
+    if (traction && this.enabled.traction) {
+      for (const i of input.drivenWheels) {
+        const wheel = input.wheels[i];
+        // Drive slip only: negative slip from engine braking isn't wheelspin
+        if (wheel.inContact && wheel.slipRatio > traction.slipThreshold && !input.braking) {
+          spinning = true;
+        }
+      }
+    }
+    if (spinning) {
+      this.tractionFactor = Math.max(TC_MIN_FACTOR, this.tractionFactor - TC_CUT_RATE * dt);
+    } else {
+      this.tractionFactor = Math.min(1, this.tractionFactor + TC_RESTORE_RATE * dt);
+    }
+    this.active.traction = this.tractionFactor < 1 && input.throttle > 0;
+  }
+
+  /**
+   * Compare measured yaw rate to what the steering asks for (bicycle model,
+   * capped by available grip). Oversteer brakes the outer front wheel,
+   * understeer brakes the inner rear, and both back the throttle off.
+   */
+  private updateStability(input: AidInput): void {
+    const stability = this.config?.stability;
+    this.stabilityBrakes.fill(0);
+    this.stabilityFactor = 1;
+    this.active.stability = false;
+    if (!stability || !this.enabled.stability || Math.abs(input.speed) < ESC_MIN_SPEED) return;
+
+    const speed = Math.abs(input.speed);
+    const maxYaw = (ESC_GRIP_LIMIT * -GRAVITY) / speed;
+    const targetYaw = clamp((speed * Math.tan(input.steering)) / this.wheelbase, -maxYaw, maxYaw);
+    const error = Math.abs(input.yawRate - targetYaw);
+    if (error < stability.yawThreshold) return;
+
+    const oversteer = Math.abs(input.yawRate) > Math.abs(targetYaw);
+    const turnSign = Math.sign(oversteer ? input.yawRate : targetYaw);
+    if (turnSign === 0) return;
+
+    const intensity = clamp((error - stability.yawThreshold) / stability.yawThreshold, 0, 1);
+    for (let i = 0; i < this.positions.length; i++) {
+      const [x, , z] = this.positions[i];
+      const front = z > 0;
+      const outer = x * turnSign < 0; // +x is the driver's left
+      const target = oversteer ? front && outer : !front && !outer;
+      if (target) this.stabilityBrakes[i] = stability.brakeForce * intensity;
+    }
+    this.stabilityFactor = ESC_THROTTLE_CUT;
+    this.active.stability = true;
+  }
+
+  /** Scale driver throttle by traction and stability control */
+  getThrottleFactor(): number {
+    return Math.min(this.tractionFactor, this.stabilityFactor);
+  }
+
+  /** Per-wheel brake: driver brake modulated by ABS plus any stability brake */
+  getWheelBrake(index: number, driverBrake: number): number {
+    return driverBrake * this.absFactors[index] + this.stabilityBrakes[index];
+  }
+
+  isEquipped(aid: DriverAid): boolean {
+    return this.config?.[aid] !== undefined;
+  }
+
+  setEnabled(aid: DriverAid, enabled: boolean): void {
+    this.enabled[aid] = enabled && this.isEquipped(aid);
+  }
+
+  getStatus(aid: DriverAid): AidStatus {
+    if (!this.isEquipped(aid)) return 'unavailable';
+    if (!this.enabled[aid]) return 'off';
+    return this.active[aid] ? 'active' : 'standby';
+  }
+
+  reset(): void {
+    this.absFactors.fill(1);
+    this.stabilityBrakes.fill(0);
+    this.tractionFactor = 1;
+    this.stabilityFactor = 1;
+    this.active.abs = false;
+    this.active.traction = false;
+    this.active.stability = false;
+  }
+}
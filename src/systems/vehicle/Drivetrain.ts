@@ -0,0 +1,118 @@
+import type { VehicleConfig, DifferentialConfig } from '../../types';
+
+const DEFAULT_BIAS_RATIO = 2.5; // LSD torque bias when the config omits one
+
+// Wheel indices follow VehicleConfig.wheels.positions: FL, FR, RL, RR
+const FRONT: [number, number] = [0, 1];
+const REAR: [number, number] = [2, 3];
+
+export class Drivetrain {
+  private readonly config: VehicleConfig['drivetrain'];
+  private readonly drivenWheels: number[];
+
+  constructor(config: VehicleConfig['drivetrain']) {
+    this.config = config;
+    switch (config.layout) {
+      case 'FWD': this.drivenWheels = [...FRONT]; break;
+      case 'RWD': this.drivenWheels = [...REAR]; break;
+      case 'AWD': this.drivenWheels = [...FRONT, ...REAR]; break;
+    }
+  }
+
+  /**
+   * Split the total drive force across the four wheels. `grip` is the
+   * tractive force each wheel can currently take (N); differentials decide
+   * how much of the force survives when one side has less grip than the other.
+   */
+  distribute(force: number, grip: number[]): number[] {
+    const forces = [0, 0, 0, 0];
+    let frontForce = 0;
+    let rearForce = 0;
+
+    switch (this.config.layout) {
+      case 'FWD':
+        frontForce = force;
+        break;
+      case 'RWD':
+        rearForce = force;
+        break;
+      case 'AWD': {
+        const frontGrip = grip[FRONT[0]] + grip[FRONT[1]];
+        const rearGrip = grip[REAR[0]] + grip[REAR[1]];
+        [frontForce, rearForce] = this.split(
+          force,
+          this.config.centerSplit ?? 0.5,
+          frontGrip,
+          rearGrip,
+          this.config.centerDiff ?? { type: 'open' },
+        );
+        break;
+      }
+    }
+
+    if (frontForce !== 0) {
+      [forces[FRONT[0]], forces[FRONT[1]]] = this.split(
+        frontForce, 0.5, grip[FRONT[0]], grip[FRONT[1]], this.config.frontDiff,
+      );
+    }
+    if (rearForce !== 0) {
+      [forces[REAR[0]], forces[REAR[1]]] = this.split(
+        rearForce, 0.5, grip[REAR[0]], grip[REAR[1]], this.config.rearDiff,
+      );
+    }
+    return forces;
+  }
+
+  /**
+   * Split force between two outputs with a nominal share `bias` going to A.
+   * Open: the lower-grip side caps both. Locked: shared in proportion to grip.
+   * Limited-slip: open split, then the shortfall moves to the grippier side
+   * up to `biasRatio` times what the other side carries.
+   */
+  private split(
+    force: number,
+    bias: number,
+    gripA: number,
+    gripB: number,
+    diff: DifferentialConfig,
+  ): [number, number] {
+    const sign = Math.sign(force);
+    const total = Math.abs(force);
+
+    if (diff.type === 'locked') {
+      const gripSum = gripA + gripB;
+      if (gripSum <= 0) return [force * bias, force * (1 - bias)];
+      return [force * (gripA / gripSum), force * (gripB / gripSum)];
+    }
+
+    const wantA = total * bias;
+    const wantB = total * (1 - bias);
+    const scale = Math.min(
+      1,
+      wantA > 0 ? gripA / wantA : 1,
+      wantB > 0 ? gripB / wantB : 1,
+    );
+    let a = wantA * scale;
+    let b = wantB * scale;
+
+    if (diff.type === 'limited-slip') {
+      const ratio = diff.biasRatio ?? DEFAULT_BIAS_RATIO;
+      const shortfall = total - a - b;
+      if (gripA > gripB) {
+        a += Math.max(0, Math.min(shortfall, gripA - a, b * ratio - a));
+      } else {
+        b += Math.max(0, Math.min(shortfall, gripB - b, a * ratio - b));
+      }
+    }
+
+    return [a * sign, b * sign];
+  }
+
+  isDriven(wheelIndex: number): boolean {
+    return this.drivenWheels.includes(wheelIndex);
+  }
+
+  getDrivenWheels(): readonly number[] {
+    return this.drivenWheels;
+  }
+}
@@ -0,0 +1,52 @@
+import { clamp } from '../../utils/math';
+import { RPM_TO_RAD_S } from '../../utils/constants';
+import type { ElectricMotorConfig } from '../../types';
+
+const REDLINE_TAPER = 0.05; // fraction of maxRpm over which drive torque fades out
+const REGEN_FADE_RPM = 400; // regen fades out below this, the friction brakes finish the stop
+
+/**
+ * Traction motor torque map. Full torque is available from standstill up
+ * to the base speed, where it meets the power limit; above that torque
+ * falls as power over shaft speed. Regen mirrors this with its own torque
+ * and power limits, and fades out near standstill where it has nothing
+ * left to recover.
+ */
+export class ElectricMotor {
+  private readonly config: ElectricMotorConfig;
+
+  constructor(config: ElectricMotorConfig) {
+    this.config = config;
+  }
+
+  /** Peak drive torque in Nm at the given shaft speed */
+  getMaxTorque(rpm: number): number {
+    const { maxTorque, maxPower, maxRpm } = this.config;
+    const speed = Math.abs(rpm);
+    const powerLimited = (maxPower * 1000) / Math.max(speed * RPM_TO_RAD_S, 1);
+    const taper = clamp((maxRpm - speed) / (maxRpm * REDLINE_TAPER), 0, 1);
+    return Math.min(maxTorque, powerLimited) * taper;
+  }
+
+  /** Regenerative braking torque in Nm (magnitude) for a 0..1 demand */
+  getRegenTorque(rpm: number, demand: number): number {
+    const { maxTorque, maxPower } = this.config.regen;
+    const speed = Math.abs(rpm);
+    const powerLimited = (maxPower * 1000) / Math.max(speed * RPM_TO_RAD_S, 1);
+    const fade = clamp(speed / REGEN_FADE_RPM, 0, 1);
+    return Math.min(maxTorque * clamp(demand, 0, 1), powerLimited) * fade;
+  }
+
+  /** Electrical power in kW for a shaft torque and speed (negative when generating) */
+  getElectricalPower(torque: number, rpm: number): number {
+    const mechanical = (torque * rpm * RPM_TO_RAD_S) / 1000;
+    const { efficiency } = this.config;
+    return mechanical >= 0 ? mechanical / efficiency : mechanical * efficiency;
+  }
+
+  /** Base speed in RPM, where the torque and power limits meet */
+  getBaseRpm(): number {
+    const { maxTorque, maxPower } = this.config;
+    return (maxPower * 1000) / maxTorque / RPM_TO_RAD_S;
+  }
+}
@@ -0,0 +1,204 @@
+import type {
+  ElectricVehicleConfig, InputState, TransmissionMode, EngineStopReason, PowertrainState,
+} from '../../types';
+import type { Powertrain, PowertrainStep } from './Powertrain';
+import { ElectricMotor } from './ElectricMotor';
+import { Battery } from './Battery';
+import { Transmission } from './Transmission';
+import { Ignition } from './Ignition';
+
+const DEFAULT_AMBIENT = 38; // °C, reported for the drive unit in place of coolant
+const SELECTOR_ENGAGE_TIME = 0.2; // s for D or R to take up drive
+const CHARGE_MAX_SPEED = 0.5; // m/s, the cable comes out if the car moves
+const RESCUE_CHARGE = 3; // kWh from the recovery truck's charger into a flat pack
+
+/**
+ * Battery-electric drive: one motor through a single-speed reduction. The
+ * car is READY once the key reaches START, lifting off or braking turns
+ * the motor into a generator, and a roadside charger refills the pack
+ * while the car stands still.
+ */
+export class ElectricPowertrain implements Powertrain {
+  readonly type = 'electric';
+  private readonly config: ElectricVehicleConfig;
+  private readonly motor: ElectricMotor;
+  private readonly battery: Battery;
+  private readonly transmission: Transmission;
+  private readonly ignition: Ignition;
+  private ready = true;
+  private stopReason: EngineStopReason | null = null;
+  private rpm = 0; // motor shaft, signed with the direction of rotation
+  private overallRatio = 0;
+  private power = 0; // kW at the battery
+  private chargerPower = 0;
+  private charging = false;
+  private ambientTemp = DEFAULT_AMBIENT;
+
+  constructor(config: ElectricVehicleConfig) {
+    this.config = config;
+    this.motor = new ElectricMotor(config.motor);
+    this.battery = new Battery(config.battery);
+    this.ignition = new Ignition();
+    // The P/R/N/D selector and parking pawl of a one-speed automatic
+    this.transmission = new Transmission({
+      gearRatios: [1],
+      reverseRatio: -1,
+      finalDriveRatio: config.reduction.ratio,
+      efficiency: config.reduction.efficiency,
+      shiftUpRpm: config.motor.maxRpm,
+      shiftDownRpm: 0,
+      shiftDelay: SELECTOR_ENGAGE_TIME,
+      mode: 'automatic',
+    }, config.motor.maxRpm);
+  }
+
+  handleControls(input: InputState, speedKmh: number): void {
+    if (input.selectorUp) this.transmission.moveSelector(-1, speedKmh);
+    if (input.selectorDown) this.transmission.moveSelector(1, speedKmh);
+    this.ignition.update(input.ignitionKey, input.ignitionOff);
+  }
+
+  update(step: PowertrainStep): number {
+    const { dt } = step;
+    const gearRatio = this.transmission.getCurrentGearRatio();
+    this.overallRatio = gearRatio * this.transmission.getFinalDriveRatio();
+    this.transmission.update(dt);
+    this.updateReady();
+
+    // Motor and wheels turn together through the reduction
+    this.rpm = step.wheelRpm * this.overallRatio;
+    let torque = 0;
+    if (this.ready && gearRatio !== 0) {
+      if (step.throttle > 0.01) {
+        torque = this.motor.getMaxTorque(this.rpm) * step.throttle * step.powerFactor;
+      } else {
+        // Off the throttle the motor regenerates: a light coast level, more with the brake
+        const demand = Math.max(this.config.motor.regen.coastLevel, step.brake);
+        const regen = this.motor.getRegenTorque(this.rpm, demand) * this.battery.getRegenAcceptance();
+        torque = -Math.sign(this.rpm) * regen;
+      }
+    }
+
+    const auxiliary = this.ready ? this.config.battery.auxiliaryPower : 0;
+    this.power = this.motor.getElectricalPower(torque, this.rpm) + auxiliary;
+    this.battery.update(this.power, dt);
+
+    this.charging = false;
+    if (this.chargerPower > 0 && Math.abs(step.speed) < CHARGE_MAX_SPEED) {
+      this.charging = this.battery.charge(this.chargerPower, dt) > 0;
+    }
+
+    return torque * this.overallRatio * this.config.reduction.efficiency;
+  }
+
+  /** READY comes on with the key at START and drops with the key or a flat pack */
+  private updateReady(): void {
+    if (this.ready && !this.ignition.isOn()) this.shutDown('ignition');
+    if (this.ready && this.battery.isEmpty()) this.shutDown('battery');
+    if (!this.ready && this.ignition.isCranking() && !this.battery.isEmpty()) {
+      this.ready = true;
+      this.stopReason = null;
+    }
+  }
+
+  private shutDown(reason: EngineStopReason): void {
+    this.ready = false;
+    this.stopReason = reason;
+  }
+
+  /** Plug into a charger of the given rating in kW, or unplug with 0 */
+  setChargerPower(powerKw: number): void {
+    this.chargerPower = powerKw;
+  }
+
+  /** Rotor inertia through the reduction; there is no clutch to break the link */
+  getDrivelineInertia(): number {
+    return this.config.motor.inertia * this.overallRatio * this.overallRatio;
+  }
+
+  isRunning(): boolean {
+    return this.ready;
+  }
+
+  getStopReason(): EngineStopReason | null {
+    return this.stopReason;
+  }
+
+  getGear(): number {
+    return this.transmission.getGear();
+  }
+
+  isInGear(): boolean {
+    return this.transmission.getCurrentGearRatio() !== 0;
+  }
+
+  isParked(): boolean {
+    return this.transmission.isParked();
+  }
+
+  getGearDisplay(): string {
+    return this.transmission.getSelector();
+  }
+
+  getTransmissionMode(): TransmissionMode {
+    return 'automatic';
+  }
+
+  setTransmissionMode(): void {
+    // Single speed: there is nothing to shift by hand
+  }
+
+  setAmbientTemperature(temp: number): void {
+    this.ambientTemp = temp;
+  }
+
+  getEnergyUsed(): number {
+    return this.battery.getUsed();
+  }
+
+  getEnergyRemaining(): number {
+    return this.battery.getEnergy();
+  }
+
+  getState(): PowertrainState {
+    return {
+      rpm: Math.round(Math.abs(this.rpm)),
+      gear: this.transmission.getGear(),
+      fuel: 0,
+      fuelPercent: 0,
+      engineRunning: this.ready,
+      isShifting: this.transmission.isShifting(),
+      clutch: 0,
+      clutchTemperature: this.ambientTemp,
+      engineStalled: false,
+      coolantTemp: this.ambientTemp,
+      oilTemp: this.ambientTemp,
+      overheating: false,
+      engineDamage: 0,
+      ignition: this.ignition.getState(),
+      cranking: false,
+      boost: null,
+      electric: {
+        power: this.power,
+        maxPower: this.config.motor.maxPower,
+        maxRegen: this.config.motor.regen.maxPower,
+        charge: this.battery.getStateOfCharge() * 100,
+        energy: this.battery.getEnergy(),
+        charging: this.charging,
+      },
+      transmissionMode: 'automatic',
+      gearSelector: this.transmission.getSelector(),
+    };
+  }
+
+  reset(): void {
+    this.transmission.resetToNeutral();
+    if (this.battery.isEmpty()) this.battery.addEnergy(RESCUE_CHARGE);
+    this.ignition.setState('on');
+    this.ready = !this.battery.isEmpty();
+    this.stopReason = this.ready ? null : 'battery';
+    this.rpm = 0;
+    this.power = 0;
+    this.charging = false;
+  }
+}
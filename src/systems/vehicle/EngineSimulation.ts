@@ -1,73 +1,134 @@
 import { clamp, lerp } from '../../utils/math';
-import type { VehicleConfig } from '../../types';
+import { RPM_TO_RAD_S, RAD_S_TO_RPM } from '../../utils/constants';
+import type { CombustionVehicleConfig, EngineStopReason, BoostState } from '../../types';
+import type { Clutch } from './Clutch';
+import { ForcedInduction } from './ForcedInduction';
+
+const IDLE_GOVERNOR_THROTTLE = 0.3; // max throttle the idle controller may add
+const IDLE_GOVERNOR_WINDOW = 0.05; // fraction of idle RPM over which it ramps in
+const BASE_FRICTION = 0.05; // internal friction as fraction of curve torque
+const START_GRACE = 1.0; // seconds after firing before the engine can stall
 
 export class EngineSimulation {
   private rpm = 0;
   private running = true;
-  private readonly config: VehicleConfig['engine'];
-
-  constructor(config: VehicleConfig['engine']) {
+  private stopReason: EngineStopReason | null = null;
+  private combustionTorque = 0;
+  private ignitionOn = true;
+  private fuelAvailable = true;
+  private starterEngaged = false;
+  private catchTimer = 0;
+  private startGrace = 0;
+  private powerFactor = 1;
+  private seized = false;
+  private readonly config: CombustionVehicleConfig['engine'];
+  private readonly induction: ForcedInduction | null;
+
+  constructor(config: CombustionVehicleConfig['engine']) {
     this.config = config;
     this.rpm = config.idleRpm;
+    this.induction = config.forcedInduction ? new ForcedInduction(config.forcedInduction) : null;
   }
 
+  /**
+   * Integrate crankshaft speed and return the torque passed through the
+   * clutch into the gearbox (negative when the engine is braking the car).
+   */
   update(
     throttle: number,
     wheelRpm: number,
     gearRatio: number,
     finalDrive: number,
+    clutch: Clutch,
     dt: number,
   ): number {
-    if (!this.running) {
-      this.rpm = lerp(this.rpm, 0, dt * 5);
-      return 0;
-    }
-
+    const { idleRpm, redlineRpm, maxRpm, inertia } = this.config;
     const inGear = gearRatio !== 0;
 
-    // Compute engine RPM from wheel RPM through drivetrain
-    const drivetrainRpm = Math.abs(wheelRpm) * Math.abs(gearRatio) * finalDrive;
-
-    // Target RPM calculation with clutch slip model
-    let targetRpm: number;
-    if (inGear) {
-      // Clutch slip: allows engine to rev above drivetrain at low speeds,
-      // but clutch grips progressively as speed builds.
-      // slipCeiling = how high the engine can free-rev beyond drivetrain RPM
-      const slipCeiling = this.config.idleRpm
-        + throttle * (this.config.idleRpm * 2); // max ~2400 RPM from slip alone
-
-      // Clutch grip: 0 = full slip (standing), 1 = fully gripped (high speed)
-      const gripThreshold = 2000; // drivetrain RPM where clutch is mostly gripped
-      const clutchGrip = clamp(drivetrainRpm / gripThreshold, 0, 1);
-
-      // Blend: at low speed, engine can float above drivetrain by slipCeiling.
-      // At high speed, engine follows drivetrain directly.
-      const slipBoost = slipCeiling * (1 - clutchGrip);
-      targetRpm = Math.max(this.config.idleRpm, drivetrainRpm + slipBoost);
-    } else {
-      // In neutral: free rev
-      targetRpm = this.config.idleRpm
-        + throttle * (this.config.redlineRpm - this.config.idleRpm) * 0.85;
+    // Ignition cut or fuel starvation kills a running engine
+    if (this.running && !this.ignitionOn) this.stop('ignition');
+    if (this.running && !this.fuelAvailable) this.stop('fuel');
+    if (this.running && this.seized) this.stop('seized');
+    this.updateStarter(dt);
+
+    const curveTorque = this.lookupTorque(this.rpm);
+
+    // Combustion: driver throttle plus the idle governor holding idle speed
+    let effectiveThrottle = 0;
+    if (this.running) {
+      const idleDeficit = clamp((idleRpm - this.rpm) / (idleRpm * IDLE_GOVERNOR_WINDOW), 0, 1);
+      effectiveThrottle = Math.max(throttle, idleDeficit * IDLE_GOVERNOR_THROTTLE);
+    }
+    // Boost follows the pedal, not the rev limiter's fuel cut
+    this.induction?.update(this.rpm, effectiveThrottle, dt);
+    // Rev limiter - cut fuel above redline
+    if (this.rpm >= redlineRpm) effectiveThrottle *= 0.05;
+    const boostFactor = this.induction?.getTorqueFactor() ?? 1;
+    this.combustionTorque = curveTorque * effectiveThrottle * boostFactor * this.powerFactor;
+
+    // Friction and pumping losses, strongest with the throttle closed
+    const rpmFactor = clamp(this.rpm / idleRpm, 0, 1);
+    const pumping = this.config.engineBrakingFactor * 0.3 * (1 - effectiveThrottle);
+    const blower = this.induction?.getParasiticLoss() ?? 0;
+    const friction = curveTorque * (BASE_FRICTION + pumping + blower) * rpmFactor;
+    const netTorque = this.combustionTorque - friction + this.getStarterTorque();
+
+    // Clutch coupling against the drivetrain, which the car's mass holds steady
+    let clutchTorque = 0;
+    const capacity = inGear ? clutch.getCapacity() : 0;
+    if (capacity > 0) {
+      const drivetrainRpm = Math.abs(wheelRpm) * Math.abs(gearRatio) * finalDrive;
+      const slipRadS = (this.rpm - drivetrainRpm) * RPM_TO_RAD_S;
+      // Torque that would bring the engine exactly to drivetrain speed this step
+      const syncTorque = netTorque + (inertia * slipRadS) / dt;
+      if (Math.abs(syncTorque) <= capacity) {
+        clutchTorque = syncTorque;
+      } else {
+        clutchTorque = Math.sign(syncTorque) * capacity;
+        clutch.addSlip(clutchTorque, slipRadS);
+      }
     }
 
-    // Smooth RPM transition
-    const rpmSpeed = throttle > 0.1 ? 8 : 15;
-    this.rpm = lerp(this.rpm, targetRpm, dt * rpmSpeed);
-    this.rpm = clamp(this.rpm, 0, this.config.maxRpm);
+    const angularAccel = (netTorque - clutchTorque) / inertia;
+    this.rpm = clamp(this.rpm + angularAccel * dt * RAD_S_TO_RPM, 0, maxRpm);
 
-    // Rev limiter - cut torque above redline
-    if (this.rpm >= this.config.redlineRpm) {
-      return this.lookupTorque(this.rpm) * 0.05;
+    // Dragged below stall speed by the drivetrain
+    this.startGrace = Math.max(0, this.startGrace - dt);
+    if (this.running && this.startGrace <= 0 && this.rpm < this.config.stallRpm) {
+      this.stop('stall');
     }
+    if (!this.running && this.rpm < 1) this.rpm = 0;
+
+    return clutchTorque;
+  }
 
-    // Engine braking when no throttle and in gear
-    if (throttle < 0.01 && inGear) {
-      return -this.config.engineBrakingFactor * this.lookupTorque(this.rpm) * 0.3;
+  /** Fire the engine once it has cranked fast enough for long enough */
+  private updateStarter(dt: number): void {
+    const canFire = !this.running && this.starterEngaged && this.ignitionOn
+      && this.fuelAvailable && !this.seized && this.rpm >= this.config.starter.fireRpm;
+    if (!canFire) {
+      this.catchTimer = 0;
+      return;
+    }
+    this.catchTimer += dt;
+    if (this.catchTimer >= this.config.starter.catchTime) {
+      this.running = true;
+      this.stopReason = null;
+      this.catchTimer = 0;
+      this.startGrace = START_GRACE;
     }
+  }
+
+  /** Starter motor torque falls off linearly towards its free cranking speed */
+  private getStarterTorque(): number {
+    if (!this.isCranking()) return 0;
+    const { torque, crankRpm } = this.config.starter;
+    return torque * clamp(1 - this.rpm / crankRpm, 0, 1);
+  }
 
-    // Engine output torque
-    return this.lookupTorque(this.rpm) * throttle;
+  private stop(reason: EngineStopReason): void {
+    this.running = false;
+    this.stopReason = reason;
   }
 
   private lookupTorque(rpm: number): number {
@@ -91,12 +152,69 @@ export class EngineSimulation {
     return this.rpm;
   }
 
+  /** Torque produced by combustion this step, used for fuel consumption */
+  getCombustionTorque(): number {
+    return this.combustionTorque;
+  }
+
+  /** Fuel multiplier on top of BSFC from running rich under boost */
+  getFuelEnrichment(): number {
+    return this.induction?.getFuelEnrichment() ?? 1;
+  }
+
+  /** Boost gauge reading, or null for a naturally aspirated engine */
+  getBoostState(): BoostState | null {
+    if (!this.induction) return null;
+    return {
+      pressure: this.induction.getPressure(),
+      max: this.induction.getMaxBoost(),
+      blowOff: this.induction.isBlowingOff(),
+    };
+  }
+
   isRunning(): boolean {
     return this.running;
   }
 
+  isStalled(): boolean {
+    return this.stopReason === 'stall';
+  }
+
+  /** Why the engine last stopped, or null if it hasn't since it was started */
+  getStopReason(): EngineStopReason | null {
+    return this.stopReason;
+  }
+
+  isCranking(): boolean {
+    return this.starterEngaged && !this.running;
+  }
+
+  setIgnition(on: boolean): void {
+    this.ignitionOn = on;
+  }
+
+  setStarter(engaged: boolean): void {
+    this.starterEngaged = engaged;
+  }
+
+  setFuelAvailable(available: boolean): void {
+    this.fuelAvailable = available;
+  }
+
+  /** Scale combustion torque, e.g. for overheating or damage (1 = healthy) */
+  setPowerFactor(factor: number): void {
+    this.powerFactor = clamp(factor, 0, 1);
+  }
+
+  setSeized(seized: boolean): void {
+    this.seized = seized;
+  }
+
   setRunning(running: boolean): void {
     this.running = running;
+    this.stopReason = null;
+    this.catchTimer = 0;
+    this.induction?.reset();
     if (running) this.rpm = this.config.idleRpm;
   }
 }
@@ -0,0 +1,100 @@
+import { clamp } from '../../utils/math';
+import type { ForcedInductionConfig } from '../../types';
+
+const MANIFOLD_VACUUM = 0.7; // bar below atmosphere with the throttle shut
+const BLOW_OFF_TIME = 0.08; // s time constant of the blow-off valve venting
+const BLOW_OFF_MIN_BOOST = 0.3; // bar needed for the valve to open on lift
+const LIFT_THROTTLE = 0.2; // throttle below which a lift counts
+const TURBO_THRESHOLD = 0.3; // share of full exhaust flow before the turbo makes boost
+const DECAY_RATIO = 0.5; // spin-down is this fraction of the spool time
+const SUPERCHARGER_RESPONSE = 0.05; // s, belt-driven so effectively instant
+const SUPERCHARGER_DRAG = 0.06; // curve torque fraction per bar to drive the blower
+
+/**
+ * Boost pressure from a turbocharger or supercharger.
+ *
+ * A turbo's target boost grows with exhaust flow (RPM times throttle) up to
+ * the wastegate limit, and the actual boost chases it with spool lag. Lifting
+ * off while boosted opens the blow-off valve and vents the charge almost at
+ * once. A supercharger is belt-driven: boost follows RPM with no lag, but it
+ * costs crank torque to turn.
+ */
+export class ForcedInduction {
+  private boost = 0; // bar gauge
+  private throttle = 0;
+  private blowingOff = false;
+  private readonly config: ForcedInductionConfig;
+
+  constructor(config: ForcedInductionConfig) {
+    this.config = config;
+  }
+
+  update(rpm: number, throttle: number, dt: number): void {
+    const { type, maxBoost, spoolRpm, spoolTime } = this.config;
+    const lifted = throttle < LIFT_THROTTLE && this.throttle >= LIFT_THROTTLE;
+    this.throttle = throttle;
+
+    // Turbo: exhaust flow drives it, the wastegate caps it. Supercharger:
+    // blower speed drives it, the bypass valve opens at part throttle.
+    let target: number;
+    if (type === 'turbo') {
+      const flow = (rpm / spoolRpm) * throttle;
+      target = maxBoost * clamp((flow - TURBO_THRESHOLD) / (1 - TURBO_THRESHOLD), 0, 1);
+    } else {
+      target = maxBoost * clamp(rpm / spoolRpm, 0, 1) * throttle;
+    }
+
+    if (type === 'turbo' && lifted && this.boost > BLOW_OFF_MIN_BOOST) {
+      this.blowingOff = true;
+    }
+    if (this.blowingOff && (throttle >= LIFT_THROTTLE || this.boost < 0.05)) {
+      this.blowingOff = false;
+    }
+
+    let timeConstant: number;
+    if (type === 'supercharger') {
+      timeConstant = SUPERCHARGER_RESPONSE;
+    } else if (this.blowingOff) {
+      timeConstant = BLOW_OFF_TIME;
+    } else {
+      timeConstant = target > this.boost ? spoolTime : spoolTime * DECAY_RATIO;
+    }
+    this.boost += (target - this.boost) * (1 - Math.exp(-dt / timeConstant));
+    this.boost = clamp(this.boost, 0, maxBoost);
+  }
+
+  /** Combustion torque multiplier from the denser charge */
+  getTorqueFactor(): number {
+    return 1 + this.boost * this.config.torquePerBar;
+  }
+
+  /** Extra fuel multiplier: boosted engines run rich to keep cool */
+  getFuelEnrichment(): number {
+    return 1 + this.boost * this.config.fuelEnrichment;
+  }
+
+  /** Fraction of curve torque spent driving the compressor off the crank */
+  getParasiticLoss(): number {
+    return this.config.type === 'supercharger' ? this.boost * SUPERCHARGER_DRAG : 0;
+  }
+
+  /** Manifold gauge pressure in bar: boost, or vacuum with the throttle closed */
+  getPressure(): number {
+    if (this.boost > 0.01) return this.boost;
+    return -MANIFOLD_VACUUM * (1 - this.throttle);
+  }
+
+  getMaxBoost(): number {
+    return this.config.maxBoost;
+  }
+
+  isBlowingOff(): boolean {
+    return this.blowingOff;
+  }
+
+  reset(): void {
+    this.boost = 0;
+    this.throttle = 0;
+    this.blowingOff = false;
+  }
+}
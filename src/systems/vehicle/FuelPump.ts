@@ -0,0 +1,49 @@
+const PUMP_RATE = 0.8; // L/s at full flow, a quick forecourt pump
+const PUMP_RAMP = 1.5; // s from lifting the nozzle to full flow
+const SHUT_OFF_FRACTION = 0.5; // nozzle clicks off when the tank takes less than this of the flow
+
+/**
+ * Forecourt fuel pump. The tank takes what it can each step and the nozzle
+ * clicks off by itself once it backs up, as on a real automatic nozzle.
+ */
+export class FuelPump {
+  private pumping = false;
+  private dispensed = 0; // L this fill
+  private flowTime = 0;
+
+  /** Lift the nozzle, starting a new fill */
+  start(): void {
+    this.pumping = true;
+    this.dispensed = 0;
+    this.flowTime = 0;
+  }
+
+  /** Hang up the nozzle; the readout keeps the last fill */
+  stop(): void {
+    this.pumping = false;
+  }
+
+  /** Walk away from the pump: stop and clear the readout */
+  clear(): void {
+    this.stop();
+    this.dispensed = 0;
+  }
+
+  isPumping(): boolean {
+    return this.pumping;
+  }
+
+  getDispensed(): number {
+    return this.dispensed;
+  }
+
+  /** Offer this step's flow to `fill`, which returns the liters that went in */
+  update(dt: number, fill: (liters: number) => number): void {
+    if (!this.pumping) return;
+    this.flowTime += dt;
+    const offered = PUMP_RATE * Math.min(1, this.flowTime / PUMP_RAMP) * dt;
+    const taken = fill(offered);
+    this.dispensed += taken;
+    if (taken < offered * SHUT_OFF_FRACTION) this.stop();
+  }
+}
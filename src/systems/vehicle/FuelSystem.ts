@@ -1,16 +1,18 @@
 import { clamp } from '../../utils/math';
-import type { VehicleConfig } from '../../types';
+import type { CombustionVehicleConfig } from '../../types';
 
 export class FuelSystem {
   private currentFuel: number;
-  private readonly config: VehicleConfig['fuel'];
+  private burned = 0; // liters through the engine since new, for the trip computer
+  private readonly config: CombustionVehicleConfig['fuel'];
 
-  constructor(config: VehicleConfig['fuel']) {
+  constructor(config: CombustionVehicleConfig['fuel']) {
     this.config = config;
     this.currentFuel = config.tankCapacity;
   }
 
-  update(rpm: number, torque: number, dt: number): void {
+  /** `enrichment` scales fuel per kWh above BSFC, e.g. rich running under boost */
+  update(rpm: number, torque: number, dt: number, enrichment = 1): void {
     if (this.currentFuel <= 0) return;
 
     // BSFC-based fuel consumption
@@ -19,15 +21,16 @@ export class FuelSystem {
     const powerKw = Math.abs(torque * angularVelocity) / 1000;
 
     // Fuel consumption: BSFC (g/kWh) -> g/s -> L/s
-    const fuelGramsPerSecond = (this.config.bsfc * powerKw) / 3600;
+    const fuelGramsPerSecond = (this.config.bsfc * enrichment * powerKw) / 3600;
     const fuelLitersPerSecond = fuelGramsPerSecond / (this.config.fuelDensity * 1000);
 
     // Idle consumption baseline
     const idleConsumption = 0.0002; // ~0.7 L/h at idle
     const totalConsumption = fuelLitersPerSecond + idleConsumption;
 
-    this.currentFuel -= totalConsumption * dt;
-    this.currentFuel = clamp(this.currentFuel, 0, this.config.tankCapacity);
+    const used = Math.min(this.currentFuel, totalConsumption * dt);
+    this.currentFuel -= used;
+    this.burned += used;
   }
 
   getFuelLevel(): number {
@@ -38,15 +41,28 @@ export class FuelSystem {
     return (this.currentFuel / this.config.tankCapacity) * 100;
   }
 
+  /** Liters burned by the engine since the car was built (leaks not included) */
+  getBurned(): number {
+    return this.burned;
+  }
+
   isEmpty(): boolean {
     return this.currentFuel <= 0;
   }
 
-  refuel(amount?: number): void {
+  /** Lose fuel outside the engine, e.g. through a leaking tank */
+  drain(amount: number): void {
+    this.currentFuel = clamp(this.currentFuel - amount, 0, this.config.tankCapacity);
+  }
+
+  /** Add `amount` liters (default a full tank); returns what actually fitted */
+  refuel(amount?: number): number {
+    const before = this.currentFuel;
     this.currentFuel = clamp(
       this.currentFuel + (amount ?? this.config.tankCapacity),
       0,
       this.config.tankCapacity,
     );
+    return this.currentFuel - before;
   }
 }
@@ -0,0 +1,44 @@
+import type { IgnitionState } from '../../types';
+
+const KEY_POSITIONS: IgnitionState[] = ['off', 'accessory', 'on', 'start'];
+
+/**
+ * Ignition key barrel. Each press turns the key one position further;
+ * START is sprung and falls back to ON as soon as the key is released.
+ */
+export class Ignition {
+  private state: IgnitionState = 'off';
+  private keyWasHeld = false;
+
+  update(keyHeld: boolean, keyBack: boolean): void {
+    if (keyHeld && !this.keyWasHeld) {
+      const index = KEY_POSITIONS.indexOf(this.state);
+      this.state = KEY_POSITIONS[Math.min(index + 1, KEY_POSITIONS.length - 1)];
+    } else if (!keyHeld && this.state === 'start') {
+      this.state = 'on';
+    }
+    this.keyWasHeld = keyHeld;
+
+    if (keyBack) {
+      const index = KEY_POSITIONS.indexOf(this.state === 'start' ? 'on' : this.state);
+      this.state = KEY_POSITIONS[Math.max(index - 1, 0)];
+    }
+  }
+
+  getState(): IgnitionState {
+    return this.state;
+  }
+
+  /** Fuel pump and ignition circuit are live */
+  isOn(): boolean {
+    return this.state === 'on' || this.state === 'start';
+  }
+
+  isCranking(): boolean {
+    return this.state === 'start';
+  }
+
+  setState(state: IgnitionState): void {
+    this.state = state;
+  }
+}
@@ -0,0 +1,66 @@
+import type {
+  VehicleConfig, PowertrainType, PowertrainState, InputState, TransmissionMode, EngineStopReason,
+} from '../../types';
+import { CombustionPowertrain } from './CombustionPowertrain';
+import { ElectricPowertrain } from './ElectricPowertrain';
+
+/** What the chassis hands the powertrain each physics step */
+export interface PowertrainStep {
+  throttle: number; // 0..1 after cruise control and traction control
+  pedal: number; // 0..1 the driver's request, which the automatic gearbox reads
+  brake: number; // 0..1 brake pedal
+  clutch: number; // 0..1 clutch pedal
+  wheelRpm: number; // average driven-wheel speed from the tire model
+  speed: number; // m/s along the heading
+  load: number; // 0..1 grade and towing load
+  powerFactor: number; // 0..1 derating from crash damage
+  fuelLeak: number; // liters lost from a holed tank this step
+  dt: number;
+}
+
+/**
+ * Everything between the driver's controls and the driven wheels. The
+ * vehicle controller only sees drive torque at the axle and the inertia
+ * behind it, so combustion and electric drives are interchangeable.
+ */
+export interface Powertrain {
+  readonly type: PowertrainType;
+
+  /** Ignition key, shifter and selector presses for this step */
+  handleControls(input: InputState, speedKmh: number): void;
+
+  /** Advance one step and return torque at the driven wheels in Nm (negative = braking) */
+  update(step: PowertrainStep): number;
+
+  /** Rotating inertia reflected onto the driven wheels, in kg*m^2 */
+  getDrivelineInertia(): number;
+
+  isRunning(): boolean;
+  getStopReason(): EngineStopReason | null;
+  getGear(): number;
+  /** A gear is engaged and the driveline is connected to the wheels */
+  isInGear(): boolean;
+  isParked(): boolean;
+  getGearDisplay(): string;
+  getTransmissionMode(): TransmissionMode;
+  setTransmissionMode(mode: TransmissionMode): void;
+  setAmbientTemperature(temp: number): void;
+  /** Fuel (L) or battery energy (kWh) used since the car was built; refills don't count */
+  getEnergyUsed(): number;
+  /** Fuel (L) or battery energy (kWh) left */
+  getEnergyRemaining(): number;
+  getState(): PowertrainState;
+
+  /**
+   * Neutral (or P), running and cooled down. Fuel or charge is kept; only a
+   * dry tank or flat pack gets the recovery truck's few liters or kWh, enough
+   * to reach a station. Full refills come from gas stations.
+   */
+  reset(): void;
+}
+
+export function createPowertrain(config: VehicleConfig): Powertrain {
+  return config.powertrain === 'electric'
+    ? new ElectricPowertrain(config)
+    : new CombustionPowertrain(config);
+}
@@ -0,0 +1,162 @@
+import { clamp } from '../../utils/math';
+import { RAD_S_TO_RPM } from '../../utils/constants';
+import type { VehicleConfig, WheelState } from '../../types';
+
+const MIN_SLIP_SPEED = 1; // m/s, floor for slip ratio denominator
+const MIN_SLIP_ANGLE_SPEED = 0.5; // m/s, below this slip angle reads 0
+const STANDSTILL_SPEED = 0.5; // m/s, below this brakes hold rather than retard
+const REGRIP_SLIP_SPEED = 0.3; // m/s of tread-vs-ground speed to regain grip
+const MAX_SLIP_RATIO = 10;
+
+export interface TireInput {
+  driveForce: number; // N at the contact patch from the drivetrain
+  brakeForce: number; // N, always opposes wheel rotation
+  longitudinalSpeed: number; // m/s of the ground along the wheel heading
+  lateralSpeed: number; // m/s of the ground across the wheel
+  load: number; // N, suspension force
+  inContact: boolean;
+  drivelineInertia: number; // kg*m^2 of engine/gearbox reflected onto this wheel
+}
+
+/**
+ * Per-wheel spin and slip. Rapier's ray-cast vehicle rolls every wheel at
+ * ground speed, so wheel spin is integrated here instead: a wheel rolls
+ * while the demanded force fits within grip, and breaks away into spin or
+ * lockup when it doesn't, until tread speed meets ground speed again.
+ */
+export class TireModel {
+  private readonly states: WheelState[] = [];
+  private readonly gripFactors: number[] = [];
+  private readonly tires: VehicleConfig['tires'];
+  private readonly wheels: VehicleConfig['wheels'];
+
+  constructor(tires: VehicleConfig['tires'], wheels: VehicleConfig['wheels']) {
+    this.tires = tires;
+    this.wheels = wheels;
+    for (let i = 0; i < wheels.positions.length; i++) {
+      this.states.push(this.createState());
+      this.gripFactors.push(1);
+    }
+  }
+
+  private createState(): WheelState {
+    return {
+      angularVelocity: 0,
+      slipRatio: 0,
+      slipAngle: 0,
+      load: 0,
+      inContact: false,
+      skidding: false,
+    };
+  }
+
+  update(index: number, input: TireInput, dt: number): void {
+    const state = this.states[index];
+    const radius = this.wheels.radius;
+    const inertia = this.tires.inertia + input.drivelineInertia;
+    const brakeStep = (input.brakeForce * radius / inertia) * dt;
+    const vLong = input.longitudinalSpeed;
+
+    state.load = Math.max(0, input.load);
+    state.inContact = input.inContact;
+    state.slipAngle = Math.abs(vLong) < MIN_SLIP_ANGLE_SPEED && Math.abs(input.lateralSpeed) < MIN_SLIP_ANGLE_SPEED
+      ? 0
+      : Math.atan2(input.lateralSpeed, Math.abs(vLong));
+
+    if (!input.inContact) {
+      // Airborne: drive torque spins the wheel freely, brakes stop it
+      state.angularVelocity += (input.driveForce * radius / inertia) * dt;
+      state.angularVelocity = this.applyBrake(state.angularVelocity, brakeStep);
+      state.slipRatio = 0;
+      state.skidding = false;
+      return;
+    }
+
+    const grip = this.getGrip(index);
+    const netForce = this.getRollingDemand(input.driveForce, input.brakeForce, vLong);
+
+    if (!state.skidding && Math.abs(netForce) > grip) {
+      state.skidding = true;
+    }
+
+    if (!state.skidding) {
+      // Rolling: tread follows the ground with a little elastic slip
+      state.angularVelocity = vLong / radius;
+      state.slipRatio = grip > 0 ? (netForce / grip) * this.tires.peakSlipRatio : 0;
+      return;
+    }
+
+    // Sliding: tire friction drags the tread back towards ground speed
+    const slideForce = grip * this.tires.slidingFriction;
+    const slipSpeed = state.angularVelocity * radius - vLong;
+    const frictionTorque = -Math.sign(slipSpeed) * slideForce * radius;
+    state.angularVelocity += ((input.driveForce * radius + frictionTorque) / inertia) * dt;
+    state.angularVelocity = this.applyBrake(state.angularVelocity, brakeStep);
+
+    const newSlipSpeed = state.angularVelocity * radius - vLong;
+    const crossed = Math.sign(newSlipSpeed) !== Math.sign(slipSpeed);
+    if ((crossed || Math.abs(newSlipSpeed) < REGRIP_SLIP_SPEED) && Math.abs(netForce) <= grip) {
+      state.skidding = false;
+      state.angularVelocity = vLong / radius;
+      state.slipRatio = 0;
+      return;
+    }
+
+    state.slipRatio = clamp(
+      newSlipSpeed / Math.max(Math.abs(vLong), MIN_SLIP_SPEED), -1, MAX_SLIP_RATIO,
+    );
+  }
+
+  /** Net longitudinal force a rolling wheel would have to transmit */
+  private getRollingDemand(driveForce: number, brakeForce: number, vLong: number): number {
+    if (Math.abs(vLong) > STANDSTILL_SPEED) {
+      return driveForce - Math.sign(vLong) * brakeForce;
+    }
+    // Near standstill the brake only resists, it can't push
+    return Math.sign(driveForce) * Math.max(0, Math.abs(driveForce) - brakeForce);
+  }
+
+  private applyBrake(angularVelocity: number, brakeStep: number): number {
+    if (Math.abs(angularVelocity) <= brakeStep) return 0;
+    return angularVelocity - Math.sign(angularVelocity) * brakeStep;
+  }
+
+  /** Tractive force the wheel can take right now: load times friction */
+  getGrip(index: number): number {
+    const state = this.states[index];
+    return state.inContact ? state.load * this.getBaseFriction(index) : 0;
+  }
+
+  private getBaseFriction(index: number): number {
+    return this.wheels.frictionSlip * this.gripFactors[index];
+  }
+
+  /** Scale a wheel's grip, e.g. for bent suspension (1 = as configured) */
+  setGripFactor(index: number, factor: number): void {
+    this.gripFactors[index] = factor;
+  }
+
+  /** Friction coefficient to hand to Rapier, reduced while the tire slides */
+  getFrictionSlip(index: number): number {
+    const sliding = this.states[index].skidding ? this.tires.slidingFriction : 1;
+    return this.getBaseFriction(index) * sliding;
+  }
+
+  /** Mean spin of the given wheels in RPM (signed, negative when reversing) */
+  getAverageRpm(indices: readonly number[]): number {
+    if (indices.length === 0) return 0;
+    let sum = 0;
+    for (const i of indices) sum += this.states[i].angularVelocity;
+    return (sum / indices.length) * RAD_S_TO_RPM;
+  }
+
+  getState(index: number): WheelState {
+    return { ...this.states[index] };
+  }
+
+  reset(): void {
+    for (let i = 0; i < this.states.length; i++) {
+      this.states[i] = this.createState();
+    }
+  }
+}
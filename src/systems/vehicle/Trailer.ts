@@ -0,0 +1,370 @@
+import * as THREE from 'three';
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { World } from '../../core/World';
+import type { TrailerConfig, VehicleLightState } from '../../types';
+import type { VehicleController } from './VehicleController';
+import { clamp } from '../../utils/math';
+import { AIR_DENSITY } from '../../utils/constants';
+
+const COUPLING_RANGE = 1.5; // m between tow ball and coupling to hitch up
+const FLOOR_MASS_SHARE = 0.7; // of the trailer's mass carried in the chassis floor
+const FLOOR_THICKNESS = 0.3; // m
+
+/**
+ * Unpowered trailer on its own rigid body and raycast wheels, coupled to a
+ * vehicle's tow ball with a spherical joint. Sway, jackknifing and the extra
+ * load on the towing car all come out of the physics.
+ */
+export class Trailer {
+  private readonly world: World;
+  private readonly config: TrailerConfig;
+
+  private body!: RAPIER.RigidBody;
+  private wheelController!: RAPIER.DynamicRayCastVehicleController;
+  private joint: RAPIER.ImpulseJoint | null = null;
+  private towVehicle: VehicleController | null = null;
+
+  readonly mesh: THREE.Group;
+  private readonly wheelMeshes: THREE.Mesh[] = [];
+  private tailLightMat!: THREE.MeshStandardMaterial;
+  private reverseLightMat!: THREE.MeshStandardMaterial;
+  private leftIndicatorMat!: THREE.MeshStandardMaterial;
+  private rightIndicatorMat!: THREE.MeshStandardMaterial;
+
+  // Interpolation state for smooth rendering
+  private prevPosition = new THREE.Vector3();
+  private prevQuaternion = new THREE.Quaternion();
+  private currPosition = new THREE.Vector3();
+  private currQuaternion = new THREE.Quaternion();
+
+  constructor(world: World, config: TrailerConfig) {
+    this.world = world;
+    this.config = config;
+    this.mesh = new THREE.Group();
+
+    this.createPhysicsBody();
+    this.createVisuals();
+  }
+
+  private createPhysicsBody(): void {
+    const rapier = this.world.rapier;
+    const physics = this.world.physicsWorld;
+    const { chassis, wheels } = this.config;
+
+    const bodyDesc = rapier.RigidBodyDesc.dynamic()
+      .setTranslation(0, 2, 0)
+      .setCanSleep(false);
+    this.body = physics.createRigidBody(bodyDesc);
+
+    // Light shell over a heavy floor keeps the centre of mass low, as in a real camper
+    const shellDesc = rapier.ColliderDesc.cuboid(
+      chassis.width / 2,
+      chassis.height / 2,
+      chassis.length / 2,
+    ).setMass(chassis.mass * (1 - FLOOR_MASS_SHARE))
+     .setFriction(0.5);
+    physics.createCollider(shellDesc, this.body);
+
+    const floorDesc = rapier.ColliderDesc.cuboid(chassis.width / 2, FLOOR_THICKNESS / 2, chassis.length / 2)
+      .setTranslation(0, (FLOOR_THICKNESS - chassis.height) / 2, 0)
+      .setMass(chassis.mass * FLOOR_MASS_SHARE)
+      .setFriction(0.5);
+    physics.createCollider(floorDesc, this.body);
+
+    // Small skid under the coupling so a parked trailer rests on its nose
+    const coupling = this.getCouplingPoint();
+    const skidDesc = rapier.ColliderDesc.ball(0.1)
+      .setTranslation(coupling.x, coupling.y, coupling.z)
+      .setMass(0)
+      .setFriction(0.8);
+    physics.createCollider(skidDesc, this.body);
+
+    this.wheelController = physics.createVehicleController(this.body);
+    for (let i = 0; i < wheels.positions.length; i++) {
+      const [x, y, z] = wheels.positions[i];
+      this.wheelController.addWheel(
+        new rapier.Vector3(x, y, z),
+        new rapier.Vector3(0, -1, 0),
+        new rapier.Vector3(-1, 0, 0),
+        wheels.suspensionRestLength,
+        wheels.radius,
+      );
+      this.wheelController.setWheelSuspensionStiffness(i, wheels.suspensionStiffness);
+      this.wheelController.setWheelMaxSuspensionTravel(i, wheels.maxSuspensionTravel);
+      this.wheelController.setWheelFrictionSlip(i, wheels.frictionSlip);
+      this.wheelController.setWheelSuspensionCompression(i, wheels.suspensionDamping * 0.8);
+      this.wheelController.setWheelSuspensionRelaxation(i, wheels.suspensionDamping);
+    }
+  }
+
+  private createVisuals(): void {
+    const { chassis, hitch, wheels, visuals } = this.config;
+
+    // Body shell
+    const bodyMesh = new THREE.Mesh(
+      new THREE.BoxGeometry(chassis.width, chassis.height, chassis.length),
+      new THREE.MeshStandardMaterial({ color: new THREE.Color(visuals.bodyColor), roughness: 0.6 }),
+    );
+    bodyMesh.castShadow = true;
+    bodyMesh.receiveShadow = true;
+    this.mesh.add(bodyMesh);
+
+    // Side stripe
+    const stripe = new THREE.Mesh(
+      new THREE.BoxGeometry(chassis.width + 0.02, chassis.height * 0.08, chassis.length * 0.9),
+      new THREE.MeshStandardMaterial({ color: new THREE.Color(visuals.stripeColor), roughness: 0.6 }),
+    );
+    stripe.position.y = -chassis.height * 0.1;
+    this.mesh.add(stripe);
+
+    // Windows
+    const windowMat = new THREE.MeshStandardMaterial({ color: 0x223344, metalness: 0.4, roughness: 0.2 });
+    for (const side of [-1, 1]) {
+      const pane = new THREE.Mesh(
+        new THREE.BoxGeometry(0.02, chassis.height * 0.25, chassis.length * 0.25),
+        windowMat,
+      );
+      pane.position.set(side * (chassis.width / 2 + 0.01), chassis.height * 0.15, chassis.length * 0.1);
+      this.mesh.add(pane);
+    }
+
+    // Drawbar from the front wall down to the coupling
+    const bodyFront = chassis.length / 2;
+    const drawbarBottom = -chassis.height / 2;
+    const coupling = new THREE.Vector3(0, hitch.height, bodyFront + hitch.drawbarLength);
+    const drawbarStart = new THREE.Vector3(0, Math.max(drawbarBottom, hitch.height), bodyFront);
+    const drawbarLength = coupling.distanceTo(drawbarStart);
+    const drawbarGeo = new THREE.CylinderGeometry(0.05, 0.05, drawbarLength, 6);
+    drawbarGeo.rotateX(Math.PI / 2);
+    const drawbar = new THREE.Mesh(drawbarGeo, new THREE.MeshStandardMaterial({ color: 0x444444 }));
+    drawbar.position.copy(drawbarStart).lerp(coupling, 0.5);
+    drawbar.lookAt(coupling);
+    this.mesh.add(drawbar);
+
+    // Tail and reverse lights
+    this.tailLightMat = new THREE.MeshStandardMaterial({
+      color: 0x330000,
+      emissive: 0xff0000,
+      emissiveIntensity: 0,
+    });
+    this.reverseLightMat = new THREE.MeshStandardMaterial({
+      color: 0x222222,
+      emissive: 0xffffff,
+      emissiveIntensity: 0,
+    });
+    this.leftIndicatorMat = new THREE.MeshStandardMaterial({
+      color: 0x442200,
+      emissive: 0xffaa00,
+      emissiveIntensity: 0,
+    });
+    this.rightIndicatorMat = this.leftIndicatorMat.clone();
+    const lightY = -chassis.height * 0.3;
+    for (const side of [-1, 1]) {
+      const tail = new THREE.Mesh(new THREE.BoxGeometry(0.15, 0.1, 0.04), this.tailLightMat);
+      tail.position.set(side * chassis.width * 0.4, lightY, -chassis.length / 2);
+      this.mesh.add(tail);
+
+      const reverse = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.06, 0.04), this.reverseLightMat);
+      reverse.position.set(side * chassis.width * 0.3, lightY, -chassis.length / 2);
+      this.mesh.add(reverse);
+
+      // +X is the left side, as on the car
+      const indicatorMat = side > 0 ? this.leftIndicatorMat : this.rightIndicatorMat;
+      const indicator = new THREE.Mesh(new THREE.BoxGeometry(0.12, 0.08, 0.04), indicatorMat);
+      indicator.position.set(side * chassis.width * 0.4, lightY + 0.12, -chassis.length / 2);
+      this.mesh.add(indicator);
+    }
+
+    // Wheels
+    for (let i = 0; i < wheels.positions.length; i++) {
+      const wheelGeometry = new THREE.CylinderGeometry(wheels.radius, wheels.radius, 0.2, 16);
+      wheelGeometry.rotateZ(Math.PI / 2);
+      const wheelMesh = new THREE.Mesh(
+        wheelGeometry,
+        new THREE.MeshStandardMaterial({ color: 0x222222, metalness: 0.2, roughness: 0.8 }),
+      );
+      wheelMesh.castShadow = true;
+      this.wheelMeshes.push(wheelMesh);
+      this.world.scene.add(wheelMesh);
+    }
+
+    this.world.scene.add(this.mesh);
+  }
+
+  /** Coupling point in trailer space */
+  private getCouplingPoint(): THREE.Vector3 {
+    const { chassis, hitch } = this.config;
+    return new THREE.Vector3(0, hitch.height, chassis.length / 2 + hitch.drawbarLength);
+  }
+
+  /** Coupling point in world space */
+  private getCouplingWorld(): THREE.Vector3 {
+    return this.getCouplingPoint().applyQuaternion(this.currQuaternion).add(this.currPosition);
+  }
+
+  /** Line the trailer up straight behind the vehicle with the coupling on its tow ball */
+  placeBehind(vehicle: VehicleController): void {
+    const hitch = vehicle.getHitchPoint();
+    if (!hitch) return;
+
+    const rotation = vehicle.getQuaternion();
+    const position = hitch.applyQuaternion(rotation).add(vehicle.getPosition())
+      .sub(this.getCouplingPoint().applyQuaternion(rotation));
+
+    const rapier = this.world.rapier;
+    this.body.setTranslation(new rapier.Vector3(position.x, position.y, position.z), true);
+    this.body.setRotation(new rapier.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w), true);
+    this.body.setLinvel(new rapier.Vector3(0, 0, 0), true);
+    this.body.setAngvel(new rapier.Vector3(0, 0, 0), true);
+
+    this.prevPosition.copy(position);
+    this.currPosition.copy(position);
+    this.prevQuaternion.copy(rotation);
+    this.currQuaternion.copy(rotation);
+  }
+
+  /** Whether the coupling is close enough to the vehicle's tow ball to hitch up */
+  canAttach(vehicle: VehicleController): boolean {
+    const hitch = vehicle.getHitchPoint();
+    if (!hitch || this.joint) return false;
+    const ball = hitch.applyQuaternion(vehicle.getQuaternion()).add(vehicle.getPosition());
+    return ball.distanceTo(this.getCouplingWorld()) <= COUPLING_RANGE;
+  }
+
+  attach(vehicle: VehicleController): void {
+    const hitch = vehicle.getHitchPoint();
+    if (!hitch || this.joint) return;
+
+    const rapier = this.world.rapier;
+    const coupling = this.getCouplingPoint();
+    const params = rapier.JointData.spherical(
+      new rapier.Vector3(hitch.x, hitch.y, hitch.z),
+      new rapier.Vector3(coupling.x, coupling.y, coupling.z),
+    );
+    // Contacts stay on between car and trailer so a jackknife actually hits
+    this.joint = this.world.physicsWorld.createImpulseJoint(params, vehicle.getChassisBody(), this.body, true);
+    this.towVehicle = vehicle;
+    vehicle.setTowedMass(this.config.chassis.mass);
+  }
+
+  detach(): void {
+    if (!this.joint) return;
+    // The joint is already gone if the towing body was removed first
+    if (this.joint.isValid()) {
+      this.world.physicsWorld.removeImpulseJoint(this.joint, true);
+    }
+    this.joint = null;
+    this.towVehicle?.setTowedMass(0);
+    this.towVehicle = null;
+  }
+
+  isAttached(): boolean {
+    return this.joint !== null;
+  }
+
+  fixedUpdate(dt: number): void {
+    this.prevPosition.copy(this.currPosition);
+    this.prevQuaternion.copy(this.currQuaternion);
+
+    // Overrun brakes follow the car's brake lights; parked trailers hold still
+    const lights = this.towVehicle?.getLightState();
+    const braking = lights ? lights.brake : true;
+    const brake = braking ? this.config.brakes.maxForce : 0;
+    for (let i = 0; i < this.config.wheels.positions.length; i++) {
+      this.wheelController.setWheelBrake(i, brake);
+    }
+
+    this.applyResistance(dt);
+    this.wheelController.updateVehicle(dt);
+
+    const pos = this.body.translation();
+    const rot = this.body.rotation();
+    this.currPosition.set(pos.x, pos.y, pos.z);
+    this.currQuaternion.set(rot.x, rot.y, rot.z, rot.w);
+  }
+
+  /** Aerodynamic drag and rolling resistance, which the towing car has to overcome */
+  private applyResistance(dt: number): void {
+    const vel = this.body.linvel();
+    const velocity = new THREE.Vector3(vel.x, vel.y, vel.z);
+    const speed = velocity.length();
+    if (speed < 0.01) return;
+
+    const { dragCoefficient, frontalArea } = this.config.aerodynamics;
+    const drag = 0.5 * AIR_DENSITY * dragCoefficient * frontalArea * speed * speed;
+
+    let load = 0;
+    for (let i = 0; i < this.config.wheels.positions.length; i++) {
+      if (this.wheelController.wheelIsInContact(i)) {
+        load += Math.max(0, this.wheelController.wheelSuspensionForce(i) ?? 0);
+      }
+    }
+    const rolling = this.config.tires.rollingResistance * load * clamp(speed / 0.5, 0, 1);
+
+    const force = velocity.normalize().multiplyScalar(-(drag + rolling) * dt);
+    this.body.applyImpulse(new this.world.rapier.Vector3(force.x, force.y, force.z), true);
+  }
+
+  /** Interpolate the meshes and mirror the towing car's rear lights and indicators */
+  updateVisuals(alpha: number): void {
+    this.mesh.position.lerpVectors(this.prevPosition, this.currPosition, alpha);
+    this.mesh.quaternion.slerpQuaternions(this.prevQuaternion, this.currQuaternion, alpha);
+
+    const lights: VehicleLightState | undefined = this.towVehicle?.getLightState();
+    if (lights?.brake) {
+      this.tailLightMat.emissiveIntensity = 2.0;
+      this.tailLightMat.color.setHex(0xff0000);
+    } else if (lights?.tail) {
+      this.tailLightMat.emissiveIntensity = 0.4;
+      this.tailLightMat.color.setHex(0x660000);
+    } else {
+      this.tailLightMat.emissiveIntensity = 0;
+      this.tailLightMat.color.setHex(0x330000);
+    }
+    const reversing = lights?.reverse ?? false;
+    this.reverseLightMat.emissiveIntensity = reversing ? 1.5 : 0;
+    this.reverseLightMat.color.setHex(reversing ? 0xffffff : 0x222222);
+    this.leftIndicatorMat.emissiveIntensity = lights?.turnLeft ? 2.0 : 0;
+    this.rightIndicatorMat.emissiveIntensity = lights?.turnRight ? 2.0 : 0;
+
+    for (let i = 0; i < this.wheelMeshes.length; i++) {
+      const connection = this.config.wheels.positions[i];
+      const suspensionLength = this.wheelController.wheelSuspensionLength(i) ?? this.config.wheels.suspensionRestLength;
+      const rotation = this.wheelController.wheelRotation(i) ?? 0;
+
+      const wheelPos = new THREE.Vector3(connection[0], connection[1] - suspensionLength, connection[2]);
+      wheelPos.applyQuaternion(this.mesh.quaternion).add(this.mesh.position);
+      this.wheelMeshes[i].position.copy(wheelPos);
+
+      const spinQuat = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), rotation);
+      this.wheelMeshes[i].quaternion.copy(this.mesh.quaternion).multiply(spinQuat);
+    }
+  }
+
+  getPosition(): THREE.Vector3 {
+    return this.currPosition.clone();
+  }
+
+  getMass(): number {
+    return this.config.chassis.mass;
+  }
+
+  dispose(): void {
+    this.detach();
+
+    const physics = this.world.physicsWorld;
+    physics.removeVehicleController(this.wheelController);
+    physics.removeRigidBody(this.body);
+
+    const meshes: THREE.Object3D[] = [this.mesh, ...this.wheelMeshes];
+    for (const root of meshes) {
+      this.world.scene.remove(root);
+      root.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    }
+  }
+}
@@ -1,28 +1,133 @@
-import type { VehicleConfig } from '../../types';
+import { clamp, lerp } from '../../utils/math';
+import type { CombustionVehicleConfig, TransmissionMode, GearSelector } from '../../types';
+
+const SELECTOR_ORDER: GearSelector[] = ['P', 'R', 'N', 'D'];
+const SELECTOR_MAX_SPEED = 5; // km/h, above this P and R are refused
+const AUTO_SHIFT_HOLD = 1.2; // seconds between automatic shifts (anti-hunting)
+const MANUAL_OVERRIDE_HOLD = 5; // seconds a tip-shift in D holds its gear
+const KICKDOWN_THROTTLE = 0.95;
 
 export class Transmission {
   private currentGear = 0; // 0 = neutral at start
   private shiftTimer = 0;
   private shifting = false;
-  private readonly config: VehicleConfig['transmission'];
+  private mode: TransmissionMode;
+  private selector: GearSelector = 'N';
+  private autoShiftTimer = 0;
+  private overrideTimer = 0;
+  private kickdownArmed = true;
+  private wheelRpm = 0; // last seen, unsigned, for gear picks between steps
+  private readonly config: CombustionVehicleConfig['transmission'];
   private readonly maxGear: number;
+  private readonly maxRpm: number;
 
-  constructor(config: VehicleConfig['transmission']) {
+  /** `maxRpm` is the most the engine or motor can turn; tip-shifts down won't exceed it */
+  constructor(config: CombustionVehicleConfig['transmission'], maxRpm = Infinity) {
     this.config = config;
     this.maxGear = config.gearRatios.length;
+    this.maxRpm = maxRpm;
+    this.mode = config.mode ?? 'manual';
   }
 
-  update(dt: number): void {
+  /**
+   * Advance shift timing. In automatic mode with D selected, also picks the
+   * gear from drivetrain RPM, throttle and load (0..1, e.g. climbing a grade).
+   */
+  update(dt: number, wheelRpm = 0, throttle = 0, load = 0): void {
     if (this.shifting) {
       this.shiftTimer -= dt;
       if (this.shiftTimer <= 0) {
         this.shifting = false;
       }
     }
+    this.autoShiftTimer = Math.max(0, this.autoShiftTimer - dt);
+    this.overrideTimer = Math.max(0, this.overrideTimer - dt);
+    this.wheelRpm = Math.abs(wheelRpm);
+
+    if (this.mode === 'automatic' && this.selector === 'D') {
+      this.updateAutomatic(this.wheelRpm, throttle, load);
+    }
+  }
+
+  private updateAutomatic(wheelRpm: number, throttle: number, load: number): void {
+    // Kickdown fires once per full-throttle stab, re-armed when the pedal lifts
+    const kickdown = throttle >= KICKDOWN_THROTTLE && this.kickdownArmed;
+    if (throttle < KICKDOWN_THROTTLE * 0.8) this.kickdownArmed = true;
+
+    if (this.shifting || this.overrideTimer > 0) return;
+    if (this.autoShiftTimer > 0 && !kickdown) return;
+
+    const { shiftUpRpm, shiftDownRpm } = this.config;
+
+    // Light throttle upshifts early for cruising; demand or load holds gears longer
+    const demand = clamp(Math.max(throttle, load), 0, 1);
+    const upRpm = lerp(lerp(shiftDownRpm, shiftUpRpm, 0.35), shiftUpRpm, demand);
+    const downRpm = lerp(shiftDownRpm * 0.6, shiftDownRpm, demand);
+    const hysteresis = (upRpm - downRpm) * 0.15;
+
+    if (kickdown) {
+      this.kickdownArmed = false;
+      // Drop as many gears as the engine can take without hitting the upshift point
+      let target = this.currentGear;
+      while (target > 1 && this.rpmInGear(wheelRpm, target - 1) < shiftUpRpm * 0.9) {
+        target--;
+      }
+      if (target < this.currentGear) {
+        this.autoShift(target);
+        return;
+      }
+    }
+
+    const rpm = this.rpmInGear(wheelRpm, this.currentGear);
+
+    // Upshift one gear at a time, only if the next gear won't immediately fall
+    // back below the downshift point (prevents hunting on grades)
+    if (rpm > upRpm && this.currentGear < this.maxGear) {
+      const nextRpm = this.rpmInGear(wheelRpm, this.currentGear + 1);
+      if (nextRpm > downRpm + hysteresis) {
+        this.autoShift(this.currentGear + 1);
+      }
+      return;
+    }
+
+    // Downshift straight to the highest gear that keeps RPM above the downshift point
+    if (rpm < downRpm && this.currentGear > 1) {
+      let target = this.currentGear - 1;
+      while (target > 1 && this.rpmInGear(wheelRpm, target) < downRpm) {
+        target--;
+      }
+      if (this.rpmInGear(wheelRpm, target) < upRpm - hysteresis) {
+        this.autoShift(target);
+      }
+    }
+  }
+
+  private rpmInGear(wheelRpm: number, gear: number): number {
+    const ratio = this.config.gearRatios[gear - 1] ?? 0;
+    return wheelRpm * ratio * this.config.finalDriveRatio;
+  }
+
+  /** Gear for engaging D on the move: the highest that keeps RPM above the downshift point */
+  private gearForSpeed(wheelRpm: number): number {
+    let gear = this.maxGear;
+    while (gear > 1 && this.rpmInGear(wheelRpm, gear) < this.config.shiftDownRpm) {
+      gear--;
+    }
+    return gear;
+  }
+
+  private autoShift(gear: number): void {
+    this.currentGear = gear;
+    this.autoShiftTimer = AUTO_SHIFT_HOLD;
+    this.startShift();
   }
 
   shiftUp(): void {
     if (this.shifting) return;
+    if (this.mode === 'automatic') {
+      this.overrideShift(1);
+      return;
+    }
     if (this.currentGear < this.maxGear) {
       this.currentGear++;
       this.startShift();
@@ -31,17 +136,92 @@ export class Transmission {
 
   shiftDown(): void {
     if (this.shifting) return;
+    if (this.mode === 'automatic') {
+      this.overrideShift(-1);
+      return;
+    }
     if (this.currentGear > -1) {
       this.currentGear--;
       this.startShift();
     }
   }
 
+  /**
+   * Tip-shift while in D: pick a gear manually and hold it for a few
+   * seconds. A downshift that would over-rev the engine is refused.
+   */
+  private overrideShift(direction: 1 | -1): void {
+    if (this.selector !== 'D') return;
+    const gear = this.currentGear + direction;
+    if (gear < 1 || gear > this.maxGear) return;
+    if (direction < 0 && this.rpmInGear(this.wheelRpm, gear) > this.maxRpm) return;
+    this.currentGear = gear;
+    this.overrideTimer = MANUAL_OVERRIDE_HOLD;
+    this.startShift();
+  }
+
+  /** Move the automatic selector one step towards P (-1) or D (+1) */
+  moveSelector(direction: 1 | -1, speedKmh: number): void {
+    if (this.mode !== 'automatic') return;
+    const index = SELECTOR_ORDER.indexOf(this.selector) + direction;
+    const next = SELECTOR_ORDER[index];
+    if (!next) return;
+    if ((next === 'P' || next === 'R') && speedKmh > SELECTOR_MAX_SPEED) return;
+    this.setSelector(next);
+  }
+
+  private setSelector(selector: GearSelector): void {
+    this.selector = selector;
+    this.overrideTimer = 0;
+    switch (selector) {
+      case 'P':
+      case 'N':
+        this.currentGear = 0;
+        break;
+      case 'R':
+        this.currentGear = -1;
+        this.startShift();
+        break;
+      case 'D':
+        // Engage the gear that suits the road speed; the shift logic is free to move on at once
+        this.currentGear = this.gearForSpeed(this.wheelRpm);
+        this.autoShiftTimer = 0;
+        this.startShift();
+        break;
+    }
+  }
+
   private startShift(): void {
     this.shifting = true;
     this.shiftTimer = this.config.shiftDelay;
   }
 
+  setMode(mode: TransmissionMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.overrideTimer = 0;
+    if (mode === 'automatic') {
+      // Map the current manual gear onto the selector
+      if (this.currentGear === -1) this.selector = 'R';
+      else if (this.currentGear === 0) this.selector = 'N';
+      else this.selector = 'D';
+    } else if (this.selector === 'P') {
+      this.selector = 'N';
+    }
+  }
+
+  getMode(): TransmissionMode {
+    return this.mode;
+  }
+
+  getSelector(): GearSelector {
+    return this.selector;
+  }
+
+  isParked(): boolean {
+    return this.mode === 'automatic' && this.selector === 'P';
+  }
+
   getCurrentGearRatio(): number {
     if (this.shifting) return 0; // Neutral during shift
     if (this.currentGear === 0) return 0;
@@ -66,6 +246,11 @@ export class Transmission {
   }
 
   getGearDisplay(): string {
+    if (this.mode === 'automatic') {
+      if (this.selector !== 'D') return this.selector;
+      const prefix = this.overrideTimer > 0 ? 'M' : 'D';
+      return `${prefix}${this.currentGear}`;
+    }
     if (this.shifting) return '-';
     if (this.currentGear === -1) return 'R';
     if (this.currentGear === 0) return 'N';
@@ -80,5 +265,10 @@ export class Transmission {
     this.currentGear = 0;
     this.shifting = false;
     this.shiftTimer = 0;
+    this.autoShiftTimer = 0;
+    this.overrideTimer = 0;
+    this.kickdownArmed = true;
+    this.wheelRpm = 0;
+    this.selector = this.mode === 'automatic' ? 'P' : 'N';
   }
 }
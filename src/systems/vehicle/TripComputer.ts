@@ -0,0 +1,107 @@
+import type { TripMeterState, TripState } from '../../types';
+import { MS_TO_KMH } from '../../utils/constants';
+
+const TRIP_METERS = 2; // A and B
+const MIN_AVERAGE_DISTANCE = 0.5; // km before an average consumption is shown
+const RANGE_WINDOW = 20; // km, recent driving the range estimate is based on
+const MIN_RANGE_DISTANCE = 1; // km of recent driving before a range is shown
+const INSTANT_SMOOTHING = 1.0; // s time constant of the instantaneous reading
+const MIN_INSTANT_SPEED = 1; // m/s, below this L/100 km means nothing
+const MIN_MOVING_SPEED = 0.5; // m/s, slower than this the trip clock stops
+
+/** What the vehicle hands the trip computer each physics step */
+export interface TripStep {
+  speed: number; // m/s over the ground
+  energyUsed: number; // L or kWh used this step, negative when regen put some back
+  energyRemaining: number; // L or kWh left
+  dt: number;
+}
+
+interface TripMeter {
+  distance: number; // m
+  time: number; // s on the move
+  used: number; // L or kWh
+}
+
+function createMeter(): TripMeter {
+  return { distance: 0, time: 0, used: 0 };
+}
+
+/** Per 100 km, or null over too short a distance to mean anything */
+function per100km(used: number, distanceKm: number, minDistance: number): number | null {
+  return distanceKm >= minDistance ? (used / distanceKm) * 100 : null;
+}
+
+/**
+ * Odometer, two resettable trip meters and fuel economy. Trip time and
+ * average speed count only time on the move, engine running or not, so
+ * stops don't drag the average down and coasting doesn't push it up. Range
+ * comes from consumption over roughly the last 20 km, so it adapts to
+ * towing, speed and terrain rather than a lifetime average.
+ */
+export class TripComputer {
+  private readonly unit: TripState['consumptionUnit'];
+  private odometer = 0; // m
+  private readonly meters: TripMeter[] = [];
+  private instantRate = 0; // L or kWh per second, smoothed
+  private speed = 0;
+  private remaining = 0;
+  private recentDistance = 0; // km, decaying
+  private recentUsed = 0; // L or kWh, decaying
+
+  constructor(unit: TripState['consumptionUnit']) {
+    this.unit = unit;
+    for (let i = 0; i < TRIP_METERS; i++) this.meters.push(createMeter());
+  }
+
+  update(step: TripStep): void {
+    const { speed, energyUsed, dt } = step;
+    const distance = speed * dt;
+    this.odometer += distance;
+    this.speed = speed;
+    this.remaining = step.energyRemaining;
+
+    for (const meter of this.meters) {
+      meter.distance += distance;
+      meter.used += energyUsed;
+      if (speed >= MIN_MOVING_SPEED) meter.time += dt;
+    }
+
+    this.instantRate += (energyUsed / dt - this.instantRate) * Math.min(1, dt / INSTANT_SMOOTHING);
+
+    // Older driving fades out as new distance comes in
+    const km = distance / 1000;
+    const decay = Math.exp(-km / RANGE_WINDOW);
+    this.recentDistance = this.recentDistance * decay + km;
+    this.recentUsed = this.recentUsed * decay + energyUsed;
+  }
+
+  /** Zero trip meter `index` (0 = A, 1 = B) */
+  resetTrip(index: number): void {
+    if (this.meters[index]) this.meters[index] = createMeter();
+  }
+
+  getState(): TripState {
+    const recent = per100km(this.recentUsed, this.recentDistance, MIN_RANGE_DISTANCE);
+    return {
+      odometer: this.odometer / 1000,
+      trips: this.meters.map((meter) => this.getMeterState(meter)),
+      instantConsumption: this.speed >= MIN_INSTANT_SPEED
+        ? (this.instantRate / this.speed) * 100000
+        : null,
+      range: recent !== null && recent > 0 ? (this.remaining / recent) * 100 : null,
+      remaining: this.remaining,
+      consumptionUnit: this.unit,
+    };
+  }
+
+  private getMeterState(meter: TripMeter): TripMeterState {
+    const km = meter.distance / 1000;
+    return {
+      distance: km,
+      time: meter.time,
+      averageSpeed: meter.time > 0 ? (meter.distance / meter.time) * MS_TO_KMH : 0,
+      averageConsumption: per100km(meter.used, km, MIN_AVERAGE_DISTANCE),
+    };
+  }
+}
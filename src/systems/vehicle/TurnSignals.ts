@@ -0,0 +1,75 @@
+import type { TurnSignal, TurnSignalState } from '../../types';
+
+const FLASH_PERIOD = 0.66; // s per on/off cycle, about 90 flashes a minute
+const FLASH_ON_FRACTION = 0.5;
+const CANCEL_ARM_STEER = 0.25; // fraction of full lock into the turn before self-cancel arms
+const CANCEL_STEER = 0.08; // ...and back below this the signal switches off
+
+/**
+ * Turn signal stalk and hazard switch with the flasher relay behind them.
+ *
+ * A signal arms once the wheel is turned well into the signalled direction
+ * and cancels itself as the wheel comes back, like the cam on a real column.
+ * Hazards flash both sides regardless of the key and leave the stalk's
+ * position alone, so a signal picks up again when they go off.
+ */
+export class TurnSignals {
+  private signal: TurnSignal = 'off';
+  private hazards = false;
+  private cancelArmed = false;
+  private phase = 0; // s into the current flash cycle
+  private lit = false;
+
+  /** Stalk left or right; pushing the same way again switches it off */
+  toggle(direction: Exclude<TurnSignal, 'off'>): void {
+    this.setSignal(this.signal === direction ? 'off' : direction);
+  }
+
+  toggleHazards(): void {
+    this.hazards = !this.hazards;
+    if (this.hazards && this.signal === 'off') this.phase = 0;
+  }
+
+  /**
+   * Step the flasher. `steer` is the wheel position as a fraction of full
+   * lock, positive left; `powered` is whether the ignition is on.
+   */
+  update(dt: number, steer: number, powered: boolean): void {
+    if (this.signal !== 'off') {
+      const intoTurn = this.signal === 'left' ? steer : -steer;
+      if (intoTurn > CANCEL_ARM_STEER) this.cancelArmed = true;
+      if (this.cancelArmed && intoTurn < CANCEL_STEER) this.setSignal('off');
+    }
+
+    const flashing = this.hazards || (powered && this.signal !== 'off');
+    if (!flashing) {
+      this.phase = 0;
+      this.lit = false;
+      return;
+    }
+    this.phase = (this.phase + dt) % FLASH_PERIOD;
+    this.lit = this.phase < FLASH_PERIOD * FLASH_ON_FRACTION;
+  }
+
+  reset(): void {
+    this.setSignal('off');
+    this.hazards = false;
+    this.lit = false;
+  }
+
+  getState(): TurnSignalState {
+    return {
+      signal: this.signal,
+      hazards: this.hazards,
+      left: this.lit && (this.hazards || this.signal === 'left'),
+      right: this.lit && (this.hazards || this.signal === 'right'),
+    };
+  }
+
+  private setSignal(signal: TurnSignal): void {
+    // Start each new signal on a flash rather than part way through a cycle
+    if (signal !== 'off' && !this.hazards) this.phase = 0;
+    this.signal = signal;
+    this.cancelArmed = false;
+  }
+}
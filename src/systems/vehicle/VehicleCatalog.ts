@@ -0,0 +1,141 @@
+import type { VehicleConfig, CombustionVehicleConfig, ElectricVehicleConfig, PowertrainType } from '../../types';
+import { validateVehicleConfig } from '../../config/validation';
+import { RPM_TO_RAD_S, AIR_DENSITY, MS_TO_KMH } from '../../utils/constants';
+import { ElectricMotor } from './ElectricMotor';
+
+const DEFAULT_VEHICLE_ID = 'default-car';
+
+// Every JSON file in config/vehicles, keyed by path, bundled at build time
+const vehicleFiles = import.meta.glob<unknown>('../../config/vehicles/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+export interface VehicleSpecs {
+  powerKw: number;
+  powerRpm: number;
+  torqueNm: number;
+  torqueRpm: number;
+  massKg: number;
+  powerToWeight: number; // kW per tonne
+  topSpeedKmh: number; // rough: the lower of the rev limit in top gear and where drag eats all the power
+  powertrain: PowertrainType;
+  tankLiters: number | null; // combustion only
+  batteryKwh: number | null; // electric only
+  layout: VehicleConfig['drivetrain']['layout'];
+  gears: number;
+  transmission: 'manual' | 'automatic';
+}
+
+export interface VehicleEntry {
+  id: string; // file name without extension
+  config: VehicleConfig;
+  specs: VehicleSpecs;
+}
+
+/** Speed at `maxRpm` through `overallRatio`, or where aero drag absorbs `powerKw`, whichever is lower */
+function estimateTopSpeed(config: VehicleConfig, maxRpm: number, overallRatio: number, powerKw: number): number {
+  const gearedLimit = (maxRpm / overallRatio) * RPM_TO_RAD_S * config.wheels.radius;
+  const { dragCoefficient, frontalArea } = config.aerodynamics;
+  const dragLimit = Math.cbrt((2 * powerKw * 1000) / (AIR_DENSITY * dragCoefficient * frontalArea));
+  return Math.min(gearedLimit, dragLimit) * MS_TO_KMH;
+}
+
+/** Headline figures for the selection screen, derived from the config */
+function deriveSpecs(config: VehicleConfig): VehicleSpecs {
+  return config.powertrain === 'electric' ? deriveElectricSpecs(config) : deriveCombustionSpecs(config);
+}
+
+function deriveCombustionSpecs(config: CombustionVehicleConfig): VehicleSpecs {
+  let powerKw = 0;
+  let powerRpm = 0;
+  let torqueNm = 0;
+  let torqueRpm = 0;
+  for (const [rpm, torque] of config.engine.torqueCurve) {
+    const kw = (torque * rpm * RPM_TO_RAD_S) / 1000;
+    if (kw > powerKw) {
+      powerKw = kw;
+      powerRpm = rpm;
+    }
+    if (torque > torqueNm) {
+      torqueNm = torque;
+      torqueRpm = rpm;
+    }
+  }
+
+  const { gearRatios, finalDriveRatio } = config.transmission;
+  const topRatio = Math.min(...gearRatios) * finalDriveRatio;
+
+  return {
+    powerKw,
+    powerRpm,
+    torqueNm,
+    torqueRpm,
+    massKg: config.chassis.mass,
+    powerToWeight: powerKw / (config.chassis.mass / 1000),
+    topSpeedKmh: estimateTopSpeed(config, config.engine.maxRpm, topRatio, powerKw),
+    powertrain: 'combustion',
+    tankLiters: config.fuel.tankCapacity,
+    batteryKwh: null,
+    layout: config.drivetrain.layout,
+    gears: config.transmission.gearRatios.length,
+    transmission: config.transmission.mode ?? 'manual',
+  };
+}
+
+/** Peak power arrives at base speed; full torque is there from standstill */
+function deriveElectricSpecs(config: ElectricVehicleConfig): VehicleSpecs {
+  const { maxPower, maxTorque } = config.motor;
+  return {
+    powerKw: maxPower,
+    powerRpm: Math.round(new ElectricMotor(config.motor).getBaseRpm()),
+    torqueNm: maxTorque,
+    torqueRpm: 0,
+    massKg: config.chassis.mass,
+    powerToWeight: maxPower / (config.chassis.mass / 1000),
+    topSpeedKmh: estimateTopSpeed(config, config.motor.maxRpm, config.reduction.ratio, maxPower),
+    powertrain: 'electric',
+    tankLiters: null,
+    batteryKwh: config.battery.capacity,
+    layout: config.drivetrain.layout,
+    gears: 1,
+    transmission: 'automatic',
+  };
+}
+
+/**
+ * All drivable vehicles found in config/vehicles. Every file is validated
+ * up front, so a broken one stops startup rather than a later car swap.
+ */
+export class VehicleCatalog {
+  private readonly entries: VehicleEntry[] = [];
+
+  constructor() {
+    for (const [path, raw] of Object.entries(vehicleFiles)) {
+      const file = path.slice(path.lastIndexOf('/') + 1);
+      const config = validateVehicleConfig(raw, file);
+      this.entries.push({
+        id: file.replace(/\.json$/, ''),
+        config,
+        specs: deriveSpecs(config),
+      });
+    }
+    if (this.entries.length === 0) {
+      throw new Error('No vehicle configs found in src/config/vehicles');
+    }
+    this.entries.sort((a, b) => a.config.name.localeCompare(b.config.name));
+  }
+
+  list(): readonly VehicleEntry[] {
+    return this.entries;
+  }
+
+  get(id: string): VehicleEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  /** The stock car, or the first entry if it has been removed */
+  getDefault(): VehicleEntry {
+    return this.get(DEFAULT_VEHICLE_ID) ?? this.entries[0];
+  }
+}
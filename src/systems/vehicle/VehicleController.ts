@@ -1,21 +1,45 @@
 import * as THREE from 'three';
 import type RAPIER from '@dimforge/rapier3d-compat';
 import type { World } from '../../core/World';
-import type { VehicleConfig, VehicleState, InputState } from '../../types';
-import { EngineSimulation } from './EngineSimulation';
-import { Transmission } from './Transmission';
-import { FuelSystem } from './FuelSystem';
-import { lerp } from '../../utils/math';
-import { MS_TO_KMH, RAD_S_TO_RPM } from '../../utils/constants';
+import type {
+  VehicleConfig, VehicleState, InputState, TransmissionMode, DriverAid, VehicleLightState, PowertrainType,
+} from '../../types';
+import type { Powertrain } from './Powertrain';
+import { createPowertrain } from './Powertrain';
+import { ElectricPowertrain } from './ElectricPowertrain';
+import { CombustionPowertrain } from './CombustionPowertrain';
+import { Drivetrain } from './Drivetrain';
+import { TireModel } from './TireModel';
+import { DriverAids } from './DriverAids';
+import { DamageModel } from './DamageModel';
+import { CruiseControl } from './CruiseControl';
+import { TripComputer } from './TripComputer';
+import { TurnSignals } from './TurnSignals';
+import { clamp, lerp } from '../../utils/math';
+import { MS_TO_KMH, AIR_DENSITY } from '../../utils/constants';
+
+const IMPACT_FORCE_THRESHOLD = 5000; // N of contact force before Rapier reports it
+const TOW_LOAD_FACTOR = 0.5; // gearbox load added per unit of towed-to-own mass
+const HANDBRAKE_FORCE = 0.6; // fraction of full braking on each rear wheel
+
+function createIndicatorMaterial(): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({ color: 0x442200, emissive: 0xffaa00, emissiveIntensity: 0 });
+}
 
 export class VehicleController {
   private readonly world: World;
   private readonly config: VehicleConfig;
-  private readonly engine: EngineSimulation;
-  private readonly transmission: Transmission;
-  private readonly fuel: FuelSystem;
+  private readonly powertrain: Powertrain;
+  private readonly drivetrain: Drivetrain;
+  private readonly tires: TireModel;
+  private readonly aids: DriverAids;
+  private readonly damage: DamageModel;
+  private readonly cruise: CruiseControl;
+  private readonly trip: TripComputer;
+  private readonly turnSignals = new TurnSignals();
 
   private chassisBody!: RAPIER.RigidBody;
+  private chassisCollider!: RAPIER.Collider;
   private vehicleController!: RAPIER.DynamicRayCastVehicleController;
 
   readonly chassisMesh: THREE.Group;
@@ -23,14 +47,31 @@ export class VehicleController {
 
   private currentSteering = 0;
   private braking = false;
+  private handbrakeOn = false;
   private inReverse = false;
   private headlightsOn = false;
   private highBeamsOn = false;
+  private engineWasRunning = false;
+  private blowOffWasOpen = false;
+  private pendingImpact = false;
+  private towedMass = 0;
+  private energyUsed = 0; // powertrain's running total at the last step
+  private readonly preStepVelocity = new THREE.Vector3();
+
+  // Body mesh and paint (deformed and darkened by damage)
+  private bodyMesh!: THREE.Mesh;
+  private bodyMaterial!: THREE.MeshStandardMaterial;
+  private readonly bodyBaseColor: THREE.Color;
+  private readonly bodyWreckColor = new THREE.Color(0x2a1a14);
 
   // Light materials (toggled in updateVisuals)
   private brakeLightMat!: THREE.MeshStandardMaterial;
   private reverseLightMat!: THREE.MeshStandardMaterial;
   private headlightMat!: THREE.MeshStandardMaterial;
+  private readonly indicatorMats: Record<'left' | 'right', THREE.MeshStandardMaterial> = {
+    left: createIndicatorMaterial(),
+    right: createIndicatorMaterial(),
+  };
 
   // Headlight SpotLights
   private readonly headlightSpots: THREE.SpotLight[] = [];
@@ -48,13 +89,21 @@ export class VehicleController {
   constructor(world: World, config: VehicleConfig) {
     this.world = world;
     this.config = config;
-    this.engine = new EngineSimulation(config.engine);
-    this.transmission = new Transmission(config.transmission);
-    this.fuel = new FuelSystem(config.fuel);
+    this.powertrain = createPowertrain(config);
+    this.drivetrain = new Drivetrain(config.drivetrain);
+    this.tires = new TireModel(config.tires, config.wheels);
+    this.aids = new DriverAids(config.aids, config.wheels);
+    this.damage = new DamageModel(config.damage, config.wheels);
+    this.cruise = new CruiseControl();
+    this.trip = new TripComputer(config.powertrain === 'electric' ? 'kWh' : 'L');
+    this.bodyBaseColor = new THREE.Color(config.visuals.bodyColor);
     this.chassisMesh = new THREE.Group();
 
     this.createPhysicsBody();
     this.createVisuals();
+    this.engineWasRunning = this.powertrain.isRunning();
+
+    this.world.eventBus.on('physics:contact-force', this.onContactForce);
   }
 
   private createPhysicsBody(): void {
@@ -74,8 +123,10 @@ export class VehicleController {
       chassis.height / 2,
       chassis.length / 2,
     ).setMass(chassis.mass)
-     .setFriction(0.5);
-    physics.createCollider(colliderDesc, this.chassisBody);
+     .setFriction(0.5)
+     .setActiveEvents(rapier.ActiveEvents.CONTACT_FORCE_EVENTS)
+     .setContactForceEventThreshold(IMPACT_FORCE_THRESHOLD);
+    this.chassisCollider = physics.createCollider(colliderDesc, this.chassisBody);
 
     // Vehicle controller
     this.vehicleController = physics.createVehicleController(this.chassisBody);
@@ -105,33 +156,35 @@ export class VehicleController {
   }
 
   private createVisuals(): void {
-    const { chassis, wheels } = this.config;
+    const { chassis, wheels, visuals } = this.config;
+    const { cabin, lights } = visuals;
 
     // Chassis body
     const bodyGeometry = new THREE.BoxGeometry(chassis.width, chassis.height, chassis.length);
-    const bodyMaterial = new THREE.MeshStandardMaterial({
-      color: 0xcc3333,
+    this.bodyMaterial = new THREE.MeshStandardMaterial({
+      color: this.bodyBaseColor,
       metalness: 0.6,
       roughness: 0.4,
     });
-    const bodyMesh = new THREE.Mesh(bodyGeometry, bodyMaterial);
-    bodyMesh.castShadow = true;
-    bodyMesh.receiveShadow = true;
-    this.chassisMesh.add(bodyMesh);
+    this.bodyMesh = new THREE.Mesh(bodyGeometry, this.bodyMaterial);
+    this.bodyMesh.castShadow = true;
+    this.bodyMesh.receiveShadow = true;
+    this.chassisMesh.add(this.bodyMesh);
 
     // Roof/cabin
     const cabinGeometry = new THREE.BoxGeometry(
-      chassis.width * 0.85,
-      chassis.height * 0.7,
-      chassis.length * 0.45,
+      chassis.width * cabin.width,
+      chassis.height * cabin.height,
+      chassis.length * cabin.length,
     );
     const cabinMaterial = new THREE.MeshStandardMaterial({
-      color: 0x222222,
+      color: new THREE.Color(visuals.cabinColor),
       metalness: 0.3,
       roughness: 0.6,
     });
     const cabinMesh = new THREE.Mesh(cabinGeometry, cabinMaterial);
-    cabinMesh.position.set(0, chassis.height * 0.65, -chassis.length * 0.05);
+    // Sits on the body with its lower 30% sunk into it
+    cabinMesh.position.set(0, chassis.height * (0.3 + cabin.height / 2), chassis.length * cabin.offset);
     cabinMesh.castShadow = true;
     this.chassisMesh.add(cabinMesh);
 
@@ -144,12 +197,12 @@ export class VehicleController {
     });
     for (const side of [-1, 1]) {
       const headlight = new THREE.Mesh(headlightGeo, this.headlightMat);
-      headlight.position.set(side * chassis.width * 0.35, 0, chassis.length / 2);
+      headlight.position.set(side * chassis.width * lights.headlightSpacing, lights.headlightHeight, chassis.length / 2);
       this.chassisMesh.add(headlight);
 
       // SpotLight for actual illumination (off by default, night mode enables)
       const spot = new THREE.SpotLight(0xfff4cc, 0, 60, Math.PI / 5, 0.4, 1.5);
-      spot.position.set(side * chassis.width * 0.35, 0, chassis.length / 2);
+      spot.position.copy(headlight.position);
       spot.castShadow = true;
       spot.shadow.mapSize.set(512, 512);
       // Target placed far ahead
@@ -170,12 +223,12 @@ export class VehicleController {
     });
     for (const side of [-1, 1]) {
       const brakeLight = new THREE.Mesh(brakeLightGeo, this.brakeLightMat);
-      brakeLight.position.set(side * chassis.width * 0.35, 0, -chassis.length / 2);
+      brakeLight.position.set(side * chassis.width * lights.taillightSpacing, lights.taillightHeight, -chassis.length / 2);
       this.chassisMesh.add(brakeLight);
 
       // SpotLight for brake glow (pointing backward, close range)
       const brakeSpot = new THREE.SpotLight(0xff2200, 0, 8, Math.PI / 4, 0.6, 2);
-      brakeSpot.position.set(side * chassis.width * 0.35, 0, -chassis.length / 2);
+      brakeSpot.position.copy(brakeLight.position);
       const brakeTarget = new THREE.Object3D();
       brakeTarget.position.set(side * 0.3, -0.5, -5);
       this.chassisMesh.add(brakeTarget);
@@ -193,10 +246,25 @@ export class VehicleController {
     });
     for (const side of [-1, 1]) {
       const reverseLight = new THREE.Mesh(reverseLightGeo, this.reverseLightMat);
-      reverseLight.position.set(side * chassis.width * 0.2, 0, -chassis.length / 2);
+      reverseLight.position.set(side * chassis.width * 0.2, lights.taillightHeight, -chassis.length / 2);
       this.chassisMesh.add(reverseLight);
     }
 
+    // Turn signals (amber, outer corners front and rear); +X is the driver's left
+    const indicatorGeo = new THREE.BoxGeometry(0.1, 0.06, 0.04);
+    for (const side of [-1, 1]) {
+      const material = side > 0 ? this.indicatorMats.left : this.indicatorMats.right;
+      const front = new THREE.Mesh(indicatorGeo, material);
+      front.position.set(
+        side * chassis.width * lights.headlightSpacing, lights.headlightHeight - 0.12, chassis.length / 2,
+      );
+      const rear = new THREE.Mesh(indicatorGeo, material);
+      rear.position.set(
+        side * chassis.width * lights.taillightSpacing, lights.taillightHeight + 0.1, -chassis.length / 2,
+      );
+      this.chassisMesh.add(front, rear);
+    }
+
     // License plate
     const plateMat = new THREE.MeshStandardMaterial({ color: 0xdddddd, roughness: 0.2 });
     const plate = new THREE.Mesh(new THREE.BoxGeometry(0.4, 0.2, 0.02), plateMat);
@@ -240,86 +308,135 @@ export class VehicleController {
     this.prevPosition.copy(this.currPosition);
     this.prevQuaternion.copy(this.currQuaternion);
 
-    // Manual gear shifting
-    if (input.shiftUp) this.transmission.shiftUp();
-    if (input.shiftDown) this.transmission.shiftDown();
-
-    // Determine throttle
-    let throttle = 0;
-    if (input.forward) {
-      throttle = 1;
-    } else if (input.backward) {
-      throttle = 0.6;
+    this.processImpact();
+
+    // Key, gear lever and selector
+    this.powertrain.handleControls(input, this.getSpeed());
+
+    // Pedals (analog from a gamepad, full travel from the keyboard)
+    let throttle = clamp(input.throttle, 0, 1);
+    const brakeInput = clamp(input.brake, 0, 1);
+    this.braking = brakeInput > 0;
+    this.inReverse = this.powertrain.getGear() === -1;
+    if (input.handbrake) this.handbrakeOn = !this.handbrakeOn;
+    if (input.signalLeft) this.turnSignals.toggle('left');
+    if (input.signalRight) this.turnSignals.toggle('right');
+    if (input.hazards) this.turnSignals.toggleHazards();
+
+    // Cruise control: brake, handbrake, clutch, a dead powertrain or no drive gear knock it to standby
+    const forwardKmh = this.getForwardSpeed() * MS_TO_KMH;
+    if (input.cruiseSet) this.cruise.setOrResume(forwardKmh);
+    if (input.cruiseLimiter) this.cruise.toggleLimiter(forwardKmh);
+    if (input.cruiseUp) this.cruise.adjust(1);
+    if (input.cruiseDown) this.cruise.adjust(-1);
+    if (brakeInput > 0 || this.handbrakeOn || input.clutch > 0.1 || this.powertrain.getGear() <= 0
+      || !this.powertrain.isRunning()) {
+      this.cruise.disengage();
     }
+    throttle = this.cruise.update(dt, forwardKmh, throttle);
 
-    const brakeInput = input.brake ? 1 : 0;
-    this.braking = input.brake;
-    this.inReverse = this.transmission.getGear() === -1;
-
-    // Steering
-    const steerTarget = (input.left ? 1 : 0) - (input.right ? 1 : 0);
-    const steerSpeed = steerTarget !== 0
+    // Steering: wind on at rack speed, self-centre at the faster return speed
+    const steerTarget = clamp(input.steer, -1, 1) * this.config.steering.maxAngle;
+    const turningIn = steerTarget * this.currentSteering >= 0
+      && Math.abs(steerTarget) > Math.abs(this.currentSteering);
+    const steerSpeed = turningIn
       ? this.config.steering.speed
       : this.config.steering.returnSpeed;
-    this.currentSteering = lerp(
-      this.currentSteering,
-      steerTarget * this.config.steering.maxAngle,
-      dt * steerSpeed,
+    this.currentSteering = lerp(this.currentSteering, steerTarget, dt * steerSpeed);
+    const { ignition } = this.powertrain.getState();
+    this.turnSignals.update(
+      dt, this.currentSteering / this.config.steering.maxAngle, ignition === 'on' || ignition === 'start',
     );
 
-    // Get average wheel RPM for engine calculation
-    const wheelRpm = this.getAverageWheelRpm();
-
-    // Update drivetrain
-    const gearRatio = this.transmission.getCurrentGearRatio();
-    const finalDrive = this.transmission.getFinalDriveRatio();
-    this.transmission.update(dt);
-
-    // Engine torque
-    const engineTorque = this.engine.update(throttle, wheelRpm, gearRatio, finalDrive, dt);
-
-    // Fuel consumption
-    this.fuel.update(this.engine.getRpm(), engineTorque, dt);
-
-    // Stall engine if out of fuel
-    if (this.fuel.isEmpty() && this.engine.isRunning()) {
-      this.engine.setRunning(false);
-    }
-
-    // Calculate wheel force
-    let wheelForce = 0;
-    if (this.engine.isRunning() && gearRatio !== 0) {
-      wheelForce = (engineTorque * gearRatio * finalDrive * this.transmission.getEfficiency())
-        / this.config.wheels.radius;
-    }
+    // Driven-wheel spin from the tire model feeds the powertrain
+    const wheelRpm = this.tires.getAverageRpm(this.drivetrain.getDrivenWheels());
+    const pedal = throttle;
+
+    // Driver aids work from last step's wheel telemetry
+    this.aids.update({
+      wheels: this.config.wheels.positions.map((_, i) => this.tires.getState(i)),
+      drivenWheels: this.drivetrain.getDrivenWheels(),
+      braking: brakeInput > 0,
+      throttle,
+      speed: this.getForwardSpeed(),
+      yawRate: this.getYawRate(),
+      steering: this.currentSteering,
+    }, dt);
+    throttle *= this.aids.getThrottleFactor();
+
+    // Powertrain torque at the driven axle
+    const axleTorque = this.powertrain.update({
+      throttle,
+      pedal,
+      brake: brakeInput,
+      clutch: input.clutch,
+      wheelRpm,
+      speed: this.getForwardSpeed(),
+      load: this.getDriveLoad(),
+      powerFactor: this.damage.getEnginePowerFactor(),
+      fuelLeak: this.damage.getFuelLeakRate() * dt,
+      dt,
+    });
+    this.publishEngineEvents();
+    this.updateTrip(dt);
+    const wheelForce = axleTorque / this.config.wheels.radius;
 
     // Apply to vehicle controller
-    this.vehicleController.setWheelSteering(0, this.currentSteering);
-    this.vehicleController.setWheelSteering(1, this.currentSteering);
+    const wheelSteering = this.currentSteering + this.damage.getSteeringOffset();
+    this.vehicleController.setWheelSteering(0, wheelSteering);
+    this.vehicleController.setWheelSteering(1, wheelSteering);
 
     // Hill-hold: light brake when in gear, no throttle, and nearly stopped
     const speed = this.getSpeed();
     let holdBrake = 0;
-    if (gearRatio !== 0 && throttle < 0.01 && speed < 3) {
+    if (this.powertrain.isInGear() && throttle < 0.01 && speed < 3) {
       holdBrake = 15;
     }
+    // Parking pawl locks the driveline
+    if (this.powertrain.isParked()) {
+      holdBrake = this.config.brakes.maxForce;
+    }
+
+    // Drive force through the differentials, by each wheel's available grip
+    const driverBrake = brakeInput * this.config.brakes.maxForce;
+    const grip = this.config.wheels.positions.map((_, i) => this.tires.getGrip(i));
+    const wheelForces = this.drivetrain.distribute(wheelForce, grip);
+
+    // Engine or motor inertia shared out over the driven wheels
+    const drivenCount = this.drivetrain.getDrivenWheels().length;
+    const drivelineInertia = this.powertrain.getDrivelineInertia() / drivenCount;
+
+    // Handbrake works the rear wheels only
+    const handbrake = this.handbrakeOn ? this.config.brakes.maxForce * HANDBRAKE_FORCE : 0;
 
-    // Rear-wheel drive
-    const brakeForce = brakeInput * this.config.brakes.maxForce + holdBrake;
     for (let i = 0; i < 4; i++) {
-      this.vehicleController.setWheelBrake(i, brakeForce);
+      const brakeForce = this.aids.getWheelBrake(i, driverBrake) + holdBrake + (i >= 2 ? handbrake : 0);
+      this.tires.setGripFactor(i, this.damage.getWheelGripFactor(i));
+      const ground = this.getWheelGroundVelocity(i);
+      this.tires.update(i, {
+        driveForce: wheelForces[i],
+        brakeForce: brakeForce / dt, // Rapier brake is an impulse per step
+        longitudinalSpeed: ground.longitudinal,
+        lateralSpeed: ground.lateral,
+        load: this.vehicleController.wheelSuspensionForce(i) ?? 0,
+        inContact: this.vehicleController.wheelIsInContact(i),
+        drivelineInertia: this.drivetrain.isDriven(i) ? drivelineInertia : 0,
+      }, dt);
 
-      // Apply engine force to rear wheels (index 2, 3)
-      if (i >= 2) {
-        this.vehicleController.setWheelEngineForce(i, wheelForce / 2);
-      } else {
-        this.vehicleController.setWheelEngineForce(i, 0);
-      }
+      this.vehicleController.setWheelBrake(i, brakeForce);
+      this.vehicleController.setWheelEngineForce(i, wheelForces[i]);
+      this.vehicleController.setWheelFrictionSlip(i, this.tires.getFrictionSlip(i));
     }
 
+    this.applyResistance(dt);
+
     // Step vehicle controller
     this.vehicleController.updateVehicle(dt);
 
+    // Velocity going into the world step, to measure impacts against
+    const vel = this.chassisBody.linvel();
+    this.preStepVelocity.set(vel.x, vel.y, vel.z);
+
     // Save current physics state for interpolation
     const pos = this.chassisBody.translation();
     const rot = this.chassisBody.rotation();
@@ -351,6 +468,11 @@ export class VehicleController {
     this.reverseLightMat.emissiveIntensity = this.inReverse ? 1.5 : 0;
     this.reverseLightMat.color.setHex(this.inReverse ? 0xffffff : 0x222222);
 
+    // Turn signals follow the flasher
+    const signals = this.turnSignals.getState();
+    this.indicatorMats.left.emissiveIntensity = signals.left ? 2.0 : 0;
+    this.indicatorMats.right.emissiveIntensity = signals.right ? 2.0 : 0;
+
     // Update wheel meshes
     for (let i = 0; i < this.wheelMeshes.length; i++) {
       const wheelAxle = this.vehicleController.wheelAxleCs(i);
@@ -385,12 +507,146 @@ export class VehicleController {
     }
   }
 
-  private getAverageWheelRpm(): number {
-    // Compute wheel RPM from chassis linear velocity
+  /** Ground velocity at a wheel's contact patch, along and across its heading */
+  private getWheelGroundVelocity(index: number): { longitudinal: number; lateral: number } {
+    const rot = this.chassisBody.rotation();
+    const quat = new THREE.Quaternion(rot.x, rot.y, rot.z, rot.w);
+    const steer = index < 2 ? this.currentSteering : 0;
+    const heading = new THREE.Vector3(Math.sin(steer), 0, Math.cos(steer)).applyQuaternion(quat);
+    const side = new THREE.Vector3(Math.cos(steer), 0, -Math.sin(steer)).applyQuaternion(quat);
+
+    const point = this.vehicleController.wheelContactPoint(index) ?? this.chassisBody.translation();
+    const vel = this.chassisBody.velocityAtPoint(point);
+    const velocity = new THREE.Vector3(vel.x, vel.y, vel.z);
+    return {
+      longitudinal: velocity.dot(heading),
+      lateral: velocity.dot(side),
+    };
+  }
+
+  private onContactForce = (...args: unknown[]): void => {
+    const [collider1, collider2] = args as [number, number, number];
+    const handle = this.chassisCollider.handle;
+    if (collider1 === handle || collider2 === handle) {
+      this.pendingImpact = true;
+    }
+  };
+
+  /**
+   * Turn the velocity change across the last world step into impact energy
+   * when the chassis collider reported a hard contact during it.
+   */
+  private processImpact(): void {
+    if (!this.pendingImpact) return;
+    this.pendingImpact = false;
+
+    const vel = this.chassisBody.linvel();
+    const deltaV = new THREE.Vector3(vel.x, vel.y, vel.z).sub(this.preStepVelocity);
+    const energy = 0.5 * this.config.chassis.mass * deltaV.lengthSq();
+
+    // The obstacle lies opposite to the velocity change, in chassis space
+    const localDirection = deltaV.negate().applyQuaternion(this.getQuaternion().invert());
+    const amount = this.damage.applyImpact(energy, localDirection);
+    if (amount > 0) {
+      this.updateDamageVisuals();
+      this.world.eventBus.emit('vehicle:impact', energy, this.damage.getState());
+    }
+  }
+
+  /** Crumple the body shell towards damaged zones and darken the paint */
+  private updateDamageVisuals(): void {
+    const { width, length } = this.config.chassis;
+    const { front, rear, left, right } = this.damage.getState();
+    this.bodyMesh.scale.set(1 - 0.06 * (left + right), 1, 1 - 0.1 * (front + rear));
+    this.bodyMesh.position.set(
+      (right - left) * 0.03 * width,
+      0,
+      (rear - front) * 0.05 * length,
+    );
+    this.bodyMaterial.color.copy(this.bodyBaseColor).lerp(this.bodyWreckColor, this.damage.getTotal() * 0.7);
+    this.bodyMaterial.roughness = 0.4 + this.damage.getTotal() * 0.5;
+  }
+
+  /** Feed the trip computer this step's distance and fuel or battery use */
+  private updateTrip(dt: number): void {
+    const used = this.powertrain.getEnergyUsed();
+    this.trip.update({
+      speed: this.getSpeed() / MS_TO_KMH,
+      energyUsed: used - this.energyUsed,
+      energyRemaining: this.powertrain.getEnergyRemaining(),
+      dt,
+    });
+    this.energyUsed = used;
+  }
+
+  private publishEngineEvents(): void {
+    const blowOff = this.powertrain.getState().boost?.blowOff ?? false;
+    if (blowOff && !this.blowOffWasOpen) {
+      this.world.eventBus.emit('engine:blow-off');
+    }
+    this.blowOffWasOpen = blowOff;
+
+    const running = this.powertrain.isRunning();
+    if (running === this.engineWasRunning) return;
+    this.engineWasRunning = running;
+    if (running) {
+      this.world.eventBus.emit('engine:started');
+    } else {
+      this.world.eventBus.emit('engine:stopped', this.powertrain.getStopReason());
+    }
+  }
+
+  /**
+   * Aerodynamic drag against the full velocity, plus tire rolling
+   * resistance along the heading, applied as impulses to the chassis.
+   */
+  private applyResistance(dt: number): void {
+    const vel = this.chassisBody.linvel();
+    const velocity = new THREE.Vector3(vel.x, vel.y, vel.z);
+    const speed = velocity.length();
+    if (speed < 0.01) return;
+
+    const { dragCoefficient, frontalArea } = this.config.aerodynamics;
+    const drag = 0.5 * AIR_DENSITY * dragCoefficient * frontalArea * speed * speed;
+    const force = velocity.clone().normalize().multiplyScalar(-drag);
+
+    // Fade rolling resistance in near standstill so it can't push the car backwards
+    let load = 0;
+    for (let i = 0; i < this.config.wheels.positions.length; i++) {
+      if (this.vehicleController.wheelIsInContact(i)) {
+        load += Math.max(0, this.vehicleController.wheelSuspensionForce(i) ?? 0);
+      }
+    }
+    const forwardSpeed = this.getForwardSpeed();
+    const rolling = this.config.tires.rollingResistance * load * clamp(Math.abs(forwardSpeed) / 0.5, 0, 1);
+    force.addScaledVector(this.getForwardDirection(), -Math.sign(forwardSpeed) * rolling);
+
+    force.multiplyScalar(dt);
+    this.chassisBody.applyImpulse(new this.world.rapier.Vector3(force.x, force.y, force.z), true);
+  }
+
+  /** Chassis velocity along its heading in m/s (negative when reversing) */
+  private getForwardSpeed(): number {
     const vel = this.chassisBody.linvel();
-    const speed = Math.sqrt(vel.x * vel.x + vel.z * vel.z);
-    const wheelAngularVel = speed / this.config.wheels.radius;
-    return wheelAngularVel * RAD_S_TO_RPM;
+    return new THREE.Vector3(vel.x, vel.y, vel.z).dot(this.getForwardDirection());
+  }
+
+  /** Yaw rate about the chassis up axis in rad/s, positive turning left */
+  private getYawRate(): number {
+    const ang = this.chassisBody.angvel();
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.getQuaternion());
+    return new THREE.Vector3(ang.x, ang.y, ang.z).dot(up);
+  }
+
+  /** Uphill grade as 0..1 transmission load (10% grade = full load) */
+  private getGradeLoad(): number {
+    return clamp(this.getForwardDirection().y * 10, 0, 1);
+  }
+
+  /** Gearbox load: uphill grade plus whatever is on the hitch */
+  private getDriveLoad(): number {
+    const towLoad = (this.towedMass / this.config.chassis.mass) * TOW_LOAD_FACTOR;
+    return clamp(this.getGradeLoad() + towLoad, 0, 1);
   }
 
   getSpeed(): number {
@@ -400,21 +656,113 @@ export class VehicleController {
 
   getState(): VehicleState {
     return {
-      rpm: Math.round(this.engine.getRpm()),
+      ...this.powertrain.getState(),
       speed: Math.round(this.getSpeed()),
-      gear: this.transmission.getGear(),
-      fuel: this.fuel.getFuelLevel(),
-      fuelPercent: this.fuel.getFuelPercent(),
       throttle: 0,
       brake: 0,
       steeringAngle: this.currentSteering,
-      engineRunning: this.engine.isRunning(),
-      isShifting: this.transmission.isShifting(),
+      handbrake: this.handbrakeOn,
+      headlights: this.headlightsOn,
+      highBeams: this.highBeamsOn,
+      turnSignals: this.turnSignals.getState(),
+      wheels: this.config.wheels.positions.map((_, i) => this.tires.getState(i)),
+      aids: {
+        abs: this.aids.getStatus('abs'),
+        traction: this.aids.getStatus('traction'),
+        stability: this.aids.getStatus('stability'),
+      },
+      damage: this.damage.getState(),
+      fuelLeaking: this.damage.getFuelLeakRate() > 0,
+      cruise: {
+        mode: this.cruise.getMode(),
+        engaged: this.cruise.isEngaged(),
+        setSpeed: this.cruise.getSetSpeed(),
+      },
+      trip: this.trip.getState(),
     };
   }
 
+  /** Zero trip meter A (0) or B (1) */
+  resetTrip(index: number): void {
+    this.trip.resetTrip(index);
+  }
+
   getGearDisplay(): string {
-    return this.transmission.getGearDisplay();
+    return this.powertrain.getGearDisplay();
+  }
+
+  getPowertrainType(): PowertrainType {
+    return this.powertrain.type;
+  }
+
+  setTransmissionMode(mode: TransmissionMode): void {
+    this.powertrain.setTransmissionMode(mode);
+  }
+
+  getTransmissionMode(): TransmissionMode {
+    return this.powertrain.getTransmissionMode();
+  }
+
+  /** Plug into a roadside charger of the given kW (0 = unplugged); ignored by combustion cars */
+  setChargerPower(powerKw: number): void {
+    if (this.powertrain instanceof ElectricPowertrain) this.powertrain.setChargerPower(powerKw);
+  }
+
+  /** Pump `liters` into the tank; returns what fitted (always 0 for electric cars) */
+  refuel(liters: number): number {
+    return this.powertrain instanceof CombustionPowertrain ? this.powertrain.refuel(liters) : 0;
+  }
+
+  isEngineRunning(): boolean {
+    return this.powertrain.isRunning();
+  }
+
+  setDriverAid(aid: DriverAid, enabled: boolean): void {
+    this.aids.setEnabled(aid, enabled);
+  }
+
+  hasDriverAid(aid: DriverAid): boolean {
+    return this.aids.isEquipped(aid);
+  }
+
+  /** Tow ball position in chassis space, or null if this vehicle has no hitch */
+  getHitchPoint(): THREE.Vector3 | null {
+    const hitch = this.config.hitchPoint;
+    return hitch ? new THREE.Vector3(...hitch) : null;
+  }
+
+  /** Physics body, for attaching joints such as a trailer hitch */
+  getChassisBody(): RAPIER.RigidBody {
+    return this.chassisBody;
+  }
+
+  /** Mass hanging off the hitch, so the automatic gearbox holds lower gears */
+  setTowedMass(mass: number): void {
+    this.towedMass = mass;
+  }
+
+  getLightState(): VehicleLightState {
+    const signals = this.turnSignals.getState();
+    return {
+      brake: this.braking,
+      reverse: this.inReverse,
+      tail: this.headlightsOn,
+      turnLeft: signals.left,
+      turnRight: signals.right,
+    };
+  }
+
+  isDamaged(): boolean {
+    return this.damage.getTotal() > 0;
+  }
+
+  repair(): void {
+    this.damage.repair();
+    this.updateDamageVisuals();
+  }
+
+  setAmbientTemperature(temp: number): void {
+    this.powertrain.setAmbientTemperature(temp);
   }
 
   setHeadlights(on: boolean): void {
@@ -458,6 +806,29 @@ export class VehicleController {
     return forward;
   }
 
+  /** Remove the vehicle from the scene and physics world; the instance is unusable afterwards */
+  dispose(): void {
+    this.world.eventBus.off('physics:contact-force', this.onContactForce);
+
+    const physics = this.world.physicsWorld;
+    physics.removeVehicleController(this.vehicleController);
+    physics.removeRigidBody(this.chassisBody); // also removes its collider
+
+    const meshes: THREE.Object3D[] = [this.chassisMesh, ...this.wheelMeshes];
+    for (const root of meshes) {
+      this.world.scene.remove(root);
+      root.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+        if (child instanceof THREE.SpotLight) {
+          child.dispose();
+        }
+      });
+    }
+  }
+
   reset(position?: THREE.Vector3): void {
     const pos = position ?? new THREE.Vector3(0, 2, 0);
     this.chassisBody.setTranslation(
@@ -477,8 +848,13 @@ export class VehicleController {
     this.currPosition.set(pos.x, pos.y, pos.z);
     this.prevQuaternion.set(0, 0, 0, 1);
     this.currQuaternion.set(0, 0, 0, 1);
-    this.transmission.resetToNeutral();
-    this.engine.setRunning(true);
-    this.fuel.refuel();
+    this.powertrain.reset();
+    this.engineWasRunning = this.powertrain.isRunning();
+    this.tires.reset();
+    this.aids.reset();
+    this.cruise.reset();
+    this.handbrakeOn = false;
+    this.turnSignals.reset();
+    this.pendingImpact = false;
   }
 }
@@ -1,19 +1,164 @@
 import type RAPIER from '@dimforge/rapier3d-compat';
 import type * as THREE from 'three';
 
-export interface VehicleConfig {
+export type TransmissionMode = 'manual' | 'automatic';
+export type GearSelector = 'P' | 'R' | 'N' | 'D';
+export type IgnitionState = 'off' | 'accessory' | 'on' | 'start';
+export type EngineStopReason = 'ignition' | 'stall' | 'fuel' | 'seized' | 'battery';
+export type DrivetrainLayout = 'FWD' | 'RWD' | 'AWD';
+export type DifferentialType = 'open' | 'limited-slip' | 'locked';
+
+export type CruiseMode = 'off' | 'cruise' | 'limiter';
+export type PowertrainType = 'combustion' | 'electric';
+export type UnitSystem = 'metric' | 'imperial';
+export type TurnSignal = 'off' | 'left' | 'right';
+
+export type DriverAid = 'abs' | 'traction' | 'stability';
+export type AidStatus = 'unavailable' | 'off' | 'standby' | 'active';
+
+export interface DifferentialConfig {
+  type: DifferentialType;
+  biasRatio?: number; // limited-slip torque bias ratio
+}
+
+export type ForcedInductionType = 'turbo' | 'supercharger';
+
+export interface ForcedInductionConfig {
+  type: ForcedInductionType;
+  maxBoost: number; // bar, wastegate limit
+  spoolRpm: number; // RPM at which full boost is available at full throttle
+  spoolTime: number; // s, turbo spool-up time constant (lag)
+  torquePerBar: number; // fractional torque gain per bar of boost
+  fuelEnrichment: number; // fractional extra fuel per bar of boost
+}
+
+export interface ElectricMotorConfig {
+  maxTorque: number; // Nm at the shaft, available up to base speed
+  maxPower: number; // kW, torque falls off as power / speed above base speed
+  maxRpm: number;
+  inertia: number; // kg*m^2, rotor
+  efficiency: number; // battery to shaft, and shaft to battery under regen
+  regen: {
+    maxTorque: number; // Nm of braking at the shaft with the brake pedal down
+    maxPower: number; // kW the battery will accept
+    coastLevel: number; // fraction of maxTorque applied off the throttle
+  };
+}
+
+/** Everything except the powertrain, shared by combustion and electric vehicles */
+interface VehicleBaseConfig {
+  name: string; // shown in the vehicle selection screen
+  description?: string;
   chassis: {
     mass: number;
     width: number;
     height: number;
     length: number;
   };
+  drivetrain: {
+    layout: DrivetrainLayout;
+    centerSplit?: number; // AWD: fraction of torque sent to the front axle
+    centerDiff?: DifferentialConfig; // AWD only
+    frontDiff: DifferentialConfig;
+    rearDiff: DifferentialConfig;
+  };
+  wheels: {
+    radius: number;
+    suspensionRestLength: number;
+    suspensionStiffness: number;
+    suspensionDamping: number;
+    maxSuspensionTravel: number;
+    frictionSlip: number;
+    positions: [number, number, number][]; // FL, FR, RL, RR
+  };
+  tires: {
+    inertia: number; // kg*m^2 per wheel and tire
+    peakSlipRatio: number; // slip ratio at which grip peaks
+    slidingFriction: number; // fraction of peak grip left once sliding
+    rollingResistance: number; // coefficient, force = Crr * load
+  };
+  aerodynamics: {
+    dragCoefficient: number; // Cd
+    frontalArea: number; // m^2
+  };
+  steering: {
+    maxAngle: number; // radians
+    speed: number; // radians per second
+    returnSpeed: number; // radians per second
+  };
+  brakes: {
+    maxForce: number;
+  };
+  damage: {
+    impactThreshold: number; // J, impacts below this leave no mark
+    impactToFullDamage: number; // J above threshold that wrecks a zone
+    maxSteeringOffset: number; // radians of pull at full side damage
+    maxLeakRate: number; // L/s fuel leak at full rear damage
+  };
+  hitchPoint?: [number, number, number]; // tow ball in chassis space; no hitch = can't tow
+  visuals: {
+    bodyColor: string; // CSS hex, e.g. "#cc3333"
+    cabinColor: string;
+    cabin: {
+      width: number; // fractions of the chassis dimensions
+      height: number;
+      length: number;
+      offset: number; // fraction of chassis length, + = towards the front
+    };
+    lights: {
+      headlightSpacing: number; // fraction of chassis width from the centre line
+      headlightHeight: number; // m above the chassis centre
+      taillightSpacing: number;
+      taillightHeight: number;
+    };
+  };
+  aids?: {
+    abs?: {
+      slipThreshold: number; // braking slip ratio at which ABS releases
+    };
+    traction?: {
+      slipThreshold: number; // drive slip ratio at which torque is cut
+    };
+    stability?: {
+      yawThreshold: number; // rad/s of yaw error before intervening
+      brakeForce: number; // max single-wheel brake applied
+    };
+  };
+}
+
+export interface CombustionVehicleConfig extends VehicleBaseConfig {
+  powertrain?: 'combustion'; // the default
   engine: {
     idleRpm: number;
     maxRpm: number;
     redlineRpm: number;
     torqueCurve: [number, number][]; // [rpm, torqueNm]
     engineBrakingFactor: number;
+    inertia: number; // kg*m^2, crankshaft + flywheel
+    stallRpm: number; // engine dies below this while running
+    starter: {
+      torque: number; // Nm at the crank with the starter stalled
+      crankRpm: number; // free-running cranking speed
+      fireRpm: number; // minimum cranking speed for the engine to catch
+      catchTime: number; // seconds of cranking above fireRpm before it fires
+    };
+    forcedInduction?: ForcedInductionConfig;
+  };
+  cooling: {
+    thermostatTemp: number; // °C, thermostat fully open 5 °C above
+    overheatTemp: number; // °C, power protection starts
+    damageTemp: number; // °C, engine damage accumulates above
+    heatCapacity: number; // J/K of coolant and block
+    radiatorConductance: number; // W/K with no airflow
+    airflowConductance: number; // W/K added per m/s of road speed
+    fanConductance: number; // W/K added by the electric fan
+  };
+  clutch: {
+    maxTorque: number; // Nm carried when fully engaged
+    bitePoint: number; // pedal travel (0..1) where the clutch starts to grab
+    releaseTime: number; // seconds for the pedal to come fully up
+    heatCapacity: number; // J/K of the friction plate
+    coolingRate: number; // W/K to ambient
   };
   transmission: {
     gearRatios: number[];
@@ -23,12 +168,43 @@ export interface VehicleConfig {
     shiftUpRpm: number;
     shiftDownRpm: number;
     shiftDelay: number; // seconds
+    mode?: TransmissionMode; // default mode, switchable at runtime
   };
   fuel: {
     tankCapacity: number; // liters
     bsfc: number; // brake-specific fuel consumption g/(kW*h)
     fuelDensity: number; // kg/L
   };
+}
+
+export interface ElectricVehicleConfig extends VehicleBaseConfig {
+  powertrain: 'electric';
+  motor: ElectricMotorConfig;
+  reduction: {
+    ratio: number; // single-speed motor-to-wheel reduction
+    efficiency: number;
+  };
+  battery: {
+    capacity: number; // kWh usable
+    maxChargePower: number; // kW, highest rate the pack accepts from a charger
+    auxiliaryPower: number; // kW drawn by the car's systems while READY
+  };
+}
+
+export type VehicleConfig = CombustionVehicleConfig | ElectricVehicleConfig;
+
+export interface TrailerConfig {
+  name: string;
+  chassis: {
+    mass: number;
+    width: number;
+    height: number;
+    length: number;
+  };
+  hitch: {
+    drawbarLength: number; // m from the front of the body to the coupling
+    height: number; // m of the coupling relative to the body centre
+  };
   wheels: {
     radius: number;
     suspensionRestLength: number;
@@ -36,18 +212,93 @@ export interface VehicleConfig {
     suspensionDamping: number;
     maxSuspensionTravel: number;
     frictionSlip: number;
-    positions: [number, number, number][]; // FL, FR, RL, RR
+    positions: [number, number, number][]; // left, right (one axle or more)
   };
-  steering: {
-    maxAngle: number; // radians
-    speed: number; // radians per second
-    returnSpeed: number; // radians per second
+  tires: {
+    rollingResistance: number;
+  };
+  aerodynamics: {
+    dragCoefficient: number;
+    frontalArea: number;
   };
   brakes: {
-    maxForce: number;
+    maxForce: number; // overrun brakes while towed, parking brake when detached
+  };
+  visuals: {
+    bodyColor: string;
+    stripeColor: string;
   };
 }
 
+export interface VehicleLightState {
+  brake: boolean;
+  reverse: boolean;
+  tail: boolean; // running lights, on with the headlights
+  turnLeft: boolean; // indicator lamps lit this instant
+  turnRight: boolean;
+}
+
+export interface WheelState {
+  angularVelocity: number; // rad/s
+  slipRatio: number; // (tread speed - ground speed) / ground speed
+  slipAngle: number; // radians between wheel heading and travel
+  load: number; // N
+  inContact: boolean;
+  skidding: boolean; // spinning or locked beyond peak grip
+}
+
+export interface DamageState {
+  front: number; // 0..1
+  rear: number;
+  left: number;
+  right: number;
+}
+
+export interface TurnSignalState {
+  signal: TurnSignal; // stalk position
+  hazards: boolean;
+  left: boolean; // lamps lit this instant, for the flash
+  right: boolean;
+}
+
+export interface CruiseState {
+  mode: CruiseMode;
+  engaged: boolean; // false = standby (cruise knocked off by brake/clutch)
+  setSpeed: number; // km/h
+}
+
+export interface TripMeterState {
+  distance: number; // km since the last reset
+  time: number; // s on the move, whether or not the powertrain is running
+  averageSpeed: number; // km/h over the time on the move
+  averageConsumption: number | null; // per 100 km, null until there's distance to average over
+}
+
+/** Odometer, trip meters and economy; consumption is L/100 km, or kWh/100 km for electric cars */
+export interface TripState {
+  odometer: number; // km
+  trips: TripMeterState[]; // A, B
+  instantConsumption: number | null; // null when (nearly) stopped
+  range: number | null; // km left at recent consumption, null until it's known
+  remaining: number; // L or kWh left
+  consumptionUnit: 'L' | 'kWh';
+}
+
+export interface BoostState {
+  pressure: number; // bar gauge, negative = manifold vacuum
+  max: number; // bar, wastegate limit
+  blowOff: boolean; // blow-off valve venting
+}
+
+export interface ElectricState {
+  power: number; // kW at the battery, negative while regenerating
+  maxPower: number; // kW, full scale for drive
+  maxRegen: number; // kW, full scale for regen
+  charge: number; // state of charge, 0..100 %
+  energy: number; // kWh remaining
+  charging: boolean; // plugged in and taking charge
+}
+
 export interface VehicleState {
   rpm: number;
   speed: number; // km/h
@@ -57,21 +308,75 @@ export interface VehicleState {
   throttle: number;
   brake: number;
   steeringAngle: number;
+  handbrake: boolean;
+  headlights: boolean;
+  highBeams: boolean;
+  turnSignals: TurnSignalState;
   engineRunning: boolean;
   isShifting: boolean;
+  clutch: number; // pedal position, 0 = released, 1 = pressed
+  clutchTemperature: number; // °C
+  engineStalled: boolean;
+  coolantTemp: number; // °C
+  oilTemp: number; // °C
+  overheating: boolean;
+  engineDamage: number; // 0..1
+  ignition: IgnitionState;
+  cranking: boolean;
+  wheels: WheelState[]; // FL, FR, RL, RR
+  aids: Record<DriverAid, AidStatus>;
+  damage: DamageState;
+  fuelLeaking: boolean;
+  cruise: CruiseState;
+  trip: TripState;
+  boost: BoostState | null; // null for naturally aspirated engines
+  electric: ElectricState | null; // null for combustion vehicles
+  transmissionMode: TransmissionMode;
+  gearSelector: GearSelector;
 }
 
+/** The part of the vehicle state a powertrain reports for itself */
+export type PowertrainState = Pick<VehicleState,
+  | 'rpm' | 'gear' | 'fuel' | 'fuelPercent' | 'engineRunning' | 'isShifting'
+  | 'clutch' | 'clutchTemperature' | 'engineStalled' | 'coolantTemp' | 'oilTemp'
+  | 'overheating' | 'engineDamage' | 'ignition' | 'cranking' | 'boost' | 'electric'
+  | 'transmissionMode' | 'gearSelector'>;
+
+/** Game actions players can bind keys and gamepad buttons to */
+export type InputAction =
+  | 'throttle' | 'reverse' | 'brake' | 'steerLeft' | 'steerRight' | 'clutch'
+  | 'ignitionKey' | 'ignitionOff' | 'shiftUp' | 'shiftDown' | 'selectorUp' | 'selectorDown'
+  | 'handbrake' | 'cameraToggle' | 'freeLookToggle' | 'highBeamToggle' | 'signalLeft' | 'signalRight' | 'hazards'
+  | 'repair' | 'refuel' | 'trailerHitch'
+  | 'cruiseSet' | 'cruiseLimiter' | 'cruiseUp' | 'cruiseDown' | 'tripCycle' | 'tripReset' | 'reset';
+
 export interface InputState {
-  forward: boolean;
-  backward: boolean;
-  left: boolean;
-  right: boolean;
-  brake: boolean;
+  throttle: number; // 0..1 pedal (keyboard gives full or part travel)
+  brake: number; // 0..1 pedal
+  steer: number; // -1..1, positive = left
+  clutch: number; // 0..1 pedal
+  ignitionKey: boolean; // held: turn key forward / crank
+  ignitionOff: boolean; // turn key back one position
   shiftUp: boolean;
   shiftDown: boolean;
+  selectorUp: boolean; // automatic selector towards P
+  selectorDown: boolean; // automatic selector towards D
+  handbrake: boolean; // pull on / release
   cameraToggle: boolean;
   freeLookToggle: boolean;
   highBeamToggle: boolean;
+  signalLeft: boolean; // turn signal stalk
+  signalRight: boolean;
+  hazards: boolean;
+  repair: boolean;
+  refuel: boolean; // start / stop the pump
+  trailerHitch: boolean; // couple / uncouple the trailer
+  cruiseSet: boolean; // set / resume / off
+  cruiseLimiter: boolean; // speed limiter on / off
+  cruiseUp: boolean;
+  cruiseDown: boolean;
+  tripCycle: boolean; // next trip computer page
+  tripReset: boolean; // zero the trip meter on show
   reset: boolean;
   mouseDeltaX: number;
   mouseDeltaY: number;
@@ -82,10 +387,48 @@ export interface RoadWaypoint {
   width?: number;
 }
 
+export type MilepostUnit = 'mile' | 'km';
+
+export interface MilepostConfig {
+  unit: MilepostUnit;
+  spacing: number; // units between posts, e.g. 0.1 for tenth-mile markers
+}
+
 export interface RoadConfig {
   name: string;
   waypoints: RoadWaypoint[];
   defaultWidth: number;
+  mileposts?: MilepostConfig; // defaults to tenth-mile posts
+}
+
+/** Where a point on the route is by the roadside posts */
+export interface MilepostState {
+  unit: MilepostUnit;
+  distance: number; // along the route from post 0, in posts' units
+  lastPost: number; // number on the last post passed
+  nextPost: number | null; // null past the last post on the route
+}
+
+export type GasStationStatus = 'open' | 'closed' | 'abandoned';
+
+/** A roadside gas station; only open ones sell fuel, charge or repair */
+export interface GasStation {
+  position: THREE.Vector3; // building centre
+  forecourt: THREE.Vector3; // centre of the service zone, between the pumps and the road
+  status: GasStationStatus;
+}
+
+/** Forecourt pump readout while refuelling */
+export interface PumpState {
+  pumping: boolean;
+  dispensed: number; // L this fill
+  tankPercent: number;
+}
+
+/** Roadside buildings in the loaded chunks, for the minimap */
+export interface RoadLandmarks {
+  gasStations: readonly GasStation[];
+  buildings: readonly THREE.Vector3[]; // motels, diners and abandoned houses
 }
 
 export interface GameSystems {
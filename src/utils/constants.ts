@@ -1,8 +1,12 @@
 export const PHYSICS_TIMESTEP = 1 / 60; // 60Hz fixed timestep
 export const MAX_SUBSTEPS = 5; // max physics steps per frame
 export const GRAVITY = -9.81;
+export const AIR_DENSITY = 1.225; // kg/m^3 at sea level
 
 export const RPM_TO_RAD_S = (2 * Math.PI) / 60;
 export const RAD_S_TO_RPM = 60 / (2 * Math.PI);
 export const MS_TO_KMH = 3.6;
 export const KMH_TO_MS = 1 / 3.6;
+export const KM_PER_MILE = 1.609344;
+export const LITERS_PER_GALLON = 3.785411784; // US gallon
+export const KG_PER_LB = 0.45359237;
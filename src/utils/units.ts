@@ -0,0 +1,58 @@
+import type { UnitSystem } from '../types';
+import { KM_PER_MILE, LITERS_PER_GALLON, KG_PER_LB } from './constants';
+
+const MPG_PER_L_100KM = 100 * LITERS_PER_GALLON / KM_PER_MILE; // mpg = this / (L/100 km)
+const MI_KWH_PER_KWH_100KM = 100 / KM_PER_MILE; // mi/kWh = this / (kWh/100 km)
+const MAX_ECONOMY = 99.9; // mpg or mi/kWh shown when coasting
+
+/** Imperial for the US and the couple of other places that still drive in miles */
+export function defaultUnitSystem(): UnitSystem {
+  return ['en-US', 'en-LR', 'my-MM'].includes(navigator.language) ? 'imperial' : 'metric';
+}
+
+export function speedFromKmh(kmh: number, units: UnitSystem): number {
+  return units === 'imperial' ? kmh / KM_PER_MILE : kmh;
+}
+
+export function speedUnit(units: UnitSystem): string {
+  return units === 'imperial' ? 'mph' : 'km/h';
+}
+
+export function distanceFromKm(km: number, units: UnitSystem): number {
+  return units === 'imperial' ? km / KM_PER_MILE : km;
+}
+
+export function distanceUnit(units: UnitSystem): string {
+  return units === 'imperial' ? 'mi' : 'km';
+}
+
+export function volumeFromLiters(liters: number, units: UnitSystem): number {
+  return units === 'imperial' ? liters / LITERS_PER_GALLON : liters;
+}
+
+export function volumeUnit(units: UnitSystem): string {
+  return units === 'imperial' ? 'gal' : 'L';
+}
+
+export function massFromKg(kg: number, units: UnitSystem): number {
+  return units === 'imperial' ? kg / KG_PER_LB : kg;
+}
+
+export function massUnit(units: UnitSystem): string {
+  return units === 'imperial' ? 'lb' : 'kg';
+}
+
+/**
+ * Fuel or energy economy from a per-100 km figure: L/100 km or kWh/100 km
+ * in metric, mpg or mi/kWh in imperial (where bigger is better).
+ */
+export function formatEconomy(per100km: number | null, unit: 'L' | 'kWh', units: UnitSystem): string {
+  if (units === 'metric') {
+    return `${per100km === null ? '---' : per100km.toFixed(1)} ${unit}/100`;
+  }
+  const label = unit === 'L' ? 'mpg' : 'mi/kWh';
+  if (per100km === null) return `--- ${label}`;
+  const factor = unit === 'L' ? MPG_PER_L_100KM : MI_KWH_PER_KWH_100KM;
+  const economy = per100km > factor / MAX_ECONOMY ? factor / per100km : MAX_ECONOMY;
+  return `${economy.toFixed(1)} ${label}`;
+}